@@ -48,7 +48,7 @@ function testFormula(input: string, formulaText: string) {
     
     result.outputLines.forEach(line => {
       console.log(`  ${line.name}: ${line.data.slice(0, 5).join(', ')}...`);
-      console.log(`    样式: ${line.styles.join(', ')}`);
+      console.log(`    样式: ${line.styles.map((s) => s.name).join(', ')}`);
     });
     
   } catch (error) {
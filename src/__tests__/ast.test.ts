@@ -11,6 +11,7 @@ import {
   UnaryOperator,
   BinaryOperator,
 } from '../ast';
+import { parsePlotStyle } from '../plot-style';
 
 describe('AST', () => {
   test('should create literal expression', () => {
@@ -89,13 +90,13 @@ describe('AST', () => {
 
   test('should create output statement', () => {
     const expr = createVariableExpr('C');
-    const stmt = createOutputStatement('RESULT', expr, ['COLORRED']);
+    const stmt = createOutputStatement('RESULT', expr, [parsePlotStyle('COLORRED')!]);
     
     expect(stmt.type).toBe('Output');
     if (stmt.type === 'Output') {
       expect(stmt.name).toBe('RESULT');
       expect(stmt.expr.type).toBe('Variable');
-      expect(stmt.styles).toEqual(['COLORRED']);
+      expect(stmt.styles).toEqual([{ type: 'Color', name: 'COLORRED', color: { r: 255, g: 0, b: 0 } }]);
     }
   });
 
@@ -108,4 +109,17 @@ describe('AST', () => {
     expect(formula.statements[0].type).toBe('Output');
     expect(formula.statements[1].type).toBe('Output');
   });
+
+  test('should attach optional span to nodes', () => {
+    const span = {
+      start: { offset: 0, line: 1, column: 1 },
+      end: { offset: 1, line: 1, column: 2 },
+    };
+    const expr = createVariableExpr('C', span);
+    const stmt = createOutputStatement(null, expr, [], span);
+    
+    expect(expr.span).toEqual(span);
+    expect(stmt.span).toEqual(span);
+    expect(createLiteralExpr(1).span).toBeUndefined();
+  });
 });
@@ -0,0 +1,120 @@
+import { integrateCandlestickPatterns } from '../candlestick-patterns';
+import { checkFormula } from '../checker';
+import { InputDataBuilder } from '../data';
+import { DiagnosticCode } from '../diagnostics';
+import { createEvaluator } from '../evaluator';
+import { DefaultFunctionRegistry, FunctionCategory } from '../function-registry';
+import { createParser } from '../parser';
+
+type Bar = [open: number, high: number, low: number, close: number];
+
+// 每组K线对应一种典型形态，最后一根为形态成立的K线
+const FIXTURES: Record<string, Bar[]> = {
+  doji: [
+    [10, 10.5, 9.5, 10.02],
+    [10, 11, 10, 10.8]
+  ],
+  hammer: [[10, 10.6, 8.5, 10.5]],
+  shootingStar: [[10.5, 12.5, 9.9, 10]],
+  engulfBull: [
+    [10, 10.2, 9.4, 9.5],
+    [9.4, 10.5, 9.3, 10.3]
+  ],
+  engulfBear: [
+    [9.5, 10.1, 9.4, 10],
+    [10.1, 10.2, 9.2, 9.3]
+  ],
+  morningStar: [
+    [11, 11.1, 9.9, 10],
+    [9.8, 9.9, 9.5, 9.7],
+    [9.8, 10.8, 9.7, 10.7]
+  ],
+  eveningStar: [
+    [10, 11.1, 9.9, 11],
+    [11.2, 11.5, 11.1, 11.3],
+    [11.2, 11.3, 10.2, 10.3]
+  ],
+  threeWhiteSoldiers: [
+    [10, 10.6, 9.9, 10.5],
+    [10.3, 11.1, 10.2, 11],
+    [10.8, 11.6, 10.7, 11.5],
+    [11.3, 12.1, 11.2, 12]
+  ],
+  threeBlackCrows: [
+    [11.5, 11.6, 10.9, 11],
+    [11.2, 11.3, 10.4, 10.5],
+    [10.7, 10.8, 9.9, 10]
+  ],
+  gaps: [
+    [10, 10.5, 9.8, 10.2],
+    [10.8, 11, 10.6, 10.9],
+    [10.5, 10.55, 10.1, 10.2],
+    [10.3, 10.4, 9.8, 10]
+  ]
+};
+
+function buildInputData(bars: Bar[]) {
+  const builder = new InputDataBuilder();
+  for (const [open, high, low, close] of bars) {
+    builder.addBar(open, high, low, close, 1000);
+  }
+  return builder.build();
+}
+
+describe('Candlestick patterns', () => {
+  const registry = new DefaultFunctionRegistry();
+  integrateCandlestickPatterns(registry);
+
+  const evaluate = (fixture: string, source: string, functionRegistry = registry) =>
+    createEvaluator(buildInputData(FIXTURES[fixture]), functionRegistry).evaluateFormula(
+      createParser(source).parseFormula()
+    ).outputLines[0].data;
+
+  test.each([
+    ['doji', 'PATTERN_DOJI', [1, 0]],
+    ['hammer', 'PATTERN_HAMMER', [1]],
+    ['hammer', 'PATTERN_SHOOTING_STAR', [0]],
+    ['shootingStar', 'PATTERN_SHOOTING_STAR', [1]],
+    ['shootingStar', 'PATTERN_HAMMER', [0]],
+    ['engulfBull', 'PATTERN_ENGULF_BULL', [0, 1]],
+    ['engulfBull', 'PATTERN_ENGULF_BEAR', [0, 0]],
+    ['engulfBear', 'PATTERN_ENGULF_BEAR', [0, 1]],
+    ['morningStar', 'PATTERN_MORNING_STAR', [0, 0, 1]],
+    ['morningStar', 'PATTERN_EVENING_STAR', [0, 0, 0]],
+    ['eveningStar', 'PATTERN_EVENING_STAR', [0, 0, 1]],
+    ['threeWhiteSoldiers', 'PATTERN_THREE_WHITE_SOLDIERS', [0, 0, 1, 1]],
+    ['threeBlackCrows', 'PATTERN_THREE_BLACK_CROWS', [0, 0, 1]],
+    ['threeBlackCrows', 'PATTERN_THREE_WHITE_SOLDIERS', [0, 0, 0]],
+    ['gaps', 'GAPUP', [0, 1, 0, 0]],
+    ['gaps', 'GAPDOWN', [0, 0, 1, 0]]
+  ])('%s fixture should give %s = %j', (fixture, name, expected) => {
+    expect(evaluate(fixture, `X: ${name}()`)).toEqual(expected);
+  });
+
+  test('should combine with other expressions', () => {
+    expect(evaluate('engulfBull', 'X: PATTERN_ENGULF_BULL() AND C > REF(H, 1)')).toEqual([null, 1]);
+  });
+
+  test('should use configured thresholds', () => {
+    const strict = new DefaultFunctionRegistry();
+    integrateCandlestickPatterns(strict, { dojiBody: 0.01, longShadow: 4 });
+
+    expect(evaluate('doji', 'X: PATTERN_DOJI()', strict)).toEqual([0, 0]);
+    expect(evaluate('hammer', 'X: PATTERN_HAMMER()', strict)).toEqual([0]);
+  });
+
+  test('should register zero-argument pattern functions', () => {
+    expect(registry.getFunctionInfo('PATTERN_DOJI')).toMatchObject({
+      minArgs: 0,
+      maxArgs: 0,
+      category: FunctionCategory.Pattern,
+      description: '十字星'
+    });
+    expect(
+      checkFormula(createParser('X: GAPUP(C)').parseFormula(), registry).map((d) => d.code)
+    ).toEqual([DiagnosticCode.WrongArgumentCount]);
+    expect(() => registry.getFunction('GAPUP')!([])).toThrow(
+      'Candlestick patterns require an evaluation context'
+    );
+  });
+});
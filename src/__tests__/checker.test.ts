@@ -0,0 +1,162 @@
+import { createParser } from '../parser';
+import { checkFormula } from '../checker';
+import { DiagnosticCode, DiagnosticSeverity } from '../diagnostics';
+import { DefaultFunctionRegistry, ParameterKind } from '../function-registry';
+import { Formula } from '../ast';
+
+function parse(source: string): Formula {
+  return createParser(source).parseFormula();
+}
+
+describe('Checker', () => {
+  test('should accept a valid formula', () => {
+    const formula = parse('MA5:MA(C,5);MA10:MA(C,10);SIGNAL:CROSS(MA5,MA10);');
+
+    expect(checkFormula(formula)).toEqual([]);
+  });
+
+  test('should report undefined variables with location', () => {
+    const diagnostics = checkFormula(parse('A := C + 1\nX: A + FOO'));
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].code).toBe(DiagnosticCode.UndefinedVariable);
+    expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Error);
+    expect(diagnostics[0].message).toBe('未定义的变量「FOO」');
+    expect(diagnostics[0].start).toMatchObject({ line: 2, column: 8 });
+  });
+
+  test('should report use before assignment', () => {
+    const diagnostics = checkFormula(parse('X: B * 2\nB := C'));
+
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.UseBeforeAssignment]);
+  });
+
+  test('should report unknown functions and wrong argument counts', () => {
+    const diagnostics = checkFormula(parse('X: FOO(C) + MA(C)\nY: ABS(C, O)'));
+
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      DiagnosticCode.UnknownFunction,
+      DiagnosticCode.WrongArgumentCount,
+      DiagnosticCode.WrongArgumentCount,
+    ]);
+    expect(diagnostics[1].message).toBe('函数「MA」需要2个参数，但提供了1个');
+  });
+
+  test('should report duplicate outputs and builtin reassignment as warnings', () => {
+    const diagnostics = checkFormula(parse('C := O\nX: C\nX: H'));
+
+    expect(diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      [DiagnosticCode.BuiltinReassignment, DiagnosticSeverity.Warning],
+      [DiagnosticCode.DuplicateOutputName, DiagnosticSeverity.Warning],
+    ]);
+  });
+
+  test('should accept builtin aliases in any case', () => {
+    const diagnostics = checkFormula(parse('X: close - Open + AMOUNT\nvol := 1'));
+
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.BuiltinReassignment]);
+  });
+
+  test('should accept bar position and time variables', () => {
+    const diagnostics = checkFormula(parse('X: DATE > 1240101 AND PERIOD = 4 AND ISLASTBAR AND time < 1500'));
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  test('should accept declared parameters', () => {
+    expect(checkFormula(parse('PARAM N(5, 1, 100)\nX: MA(C, N)'))).toEqual([]);
+    expect(checkFormula(parse('PARAM n(3, 1, 10)\nX: MA(C, N) + n'))).toEqual([]);
+  });
+
+  test('should report invalid parameter declarations', () => {
+    const diagnostics = checkFormula(
+      parse('PARAM N(5, 10, 100)\nPARAM n(1)\nPARAM M(5, 9, 1)\nPARAM S(1, 0, 2, 0)\nPARAM VOL(1)\nX: N + M + S')
+    );
+
+    expect(diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      [DiagnosticCode.InvalidParameter, DiagnosticSeverity.Error],
+      [DiagnosticCode.DuplicateParameter, DiagnosticSeverity.Error],
+      [DiagnosticCode.InvalidParameter, DiagnosticSeverity.Error],
+      [DiagnosticCode.InvalidParameter, DiagnosticSeverity.Error],
+      [DiagnosticCode.BuiltinReassignment, DiagnosticSeverity.Warning],
+    ]);
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      '参数「N」的默认值5小于最小值10',
+      '参数「n」重复定义',
+      '参数「M」的最小值9大于最大值1',
+      '参数「S」的步长必须大于0',
+      '参数「VOL」与内置变量重名',
+    ]);
+    expect(diagnostics[1].start).toMatchObject({ line: 2, column: 1 });
+  });
+
+  test('should warn about future functions', () => {
+    const diagnostics = checkFormula(parse('X: ZIG(C, 10)\nY: PEAKBARS(C, 10, 1)'));
+
+    expect(diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      [DiagnosticCode.FutureFunction, DiagnosticSeverity.Warning],
+      [DiagnosticCode.FutureFunction, DiagnosticSeverity.Warning],
+    ]);
+    expect(diagnostics[0].message).toContain('函数「ZIG」是未来函数');
+  });
+
+  test('should report unknown outputs of multi-output functions', () => {
+    const registry = new DefaultFunctionRegistry();
+    registry.registerMultiOutputFunction('PAIR', (args) => ({ A: args[0], B: args[0] }), {
+      params: [{ name: 'X', kind: ParameterKind.Series }],
+      outputs: ['A', 'B'],
+    });
+
+    expect(checkFormula(parse('X: PAIR.b(C)'), registry)).toEqual([]);
+    const diagnostics = checkFormula(parse('X: PAIR.C(C)\nY: MA.A(C, 5)'), registry);
+
+    expect(diagnostics.map((d) => d.code)).toEqual([DiagnosticCode.UnknownOutput, DiagnosticCode.UnknownOutput]);
+    expect(diagnostics[0].message).toBe('函数「PAIR」没有名为「C」的输出，可用的输出：A、B');
+  });
+
+  test('should warn about conflicting plot styles', () => {
+    const diagnostics = checkFormula(parse('X: C, COLORRED, NODRAW, NOTEXT, COLOR0000FF\nC, STICK, DOTLINE, LINETHICK2'));
+
+    expect(diagnostics.map((d) => [d.code, d.severity, d.message])).toEqual([
+      [DiagnosticCode.ConflictingPlotStyles, DiagnosticSeverity.Warning, '输出「X」指定了多个颜色'],
+      [DiagnosticCode.ConflictingPlotStyles, DiagnosticSeverity.Warning, '输出指定了多个线型'],
+    ]);
+  });
+
+  test('should warn about unknown plot styles', () => {
+    const diagnostics = checkFormula(parse('X: C, DRAWABOVE, LAYER2, COLORPINK, LINETHICK10'));
+
+    expect(diagnostics.map((d) => [d.code, d.severity, d.message])).toEqual([
+      [DiagnosticCode.UnknownPlotStyle, DiagnosticSeverity.Warning, '无法识别的绘图样式「COLORPINK」'],
+      [DiagnosticCode.UnknownPlotStyle, DiagnosticSeverity.Warning, '无法识别的绘图样式「LINETHICK10」'],
+    ]);
+  });
+
+  test('should report formulas without output', () => {
+    const diagnostics = checkFormula(parse('A := C\nB := A + 1'));
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].code).toBe(DiagnosticCode.NoOutput);
+    expect(diagnostics[0].start).toMatchObject({ line: 2, column: 1 });
+  });
+
+  test('should allow referencing earlier named outputs', () => {
+    const formula = parse('K: MA(C, 3)\nD: MA(K, 3)\nJ: 3 * K - 2 * D');
+
+    expect(checkFormula(formula)).toEqual([]);
+  });
+
+  test('should use custom registry and extra variables', () => {
+    const registry = new DefaultFunctionRegistry();
+    registry.registerFunction('DOUBLE', (args) => args[0].map((v) => (v === null ? null : v * 2)));
+    const formula = parse('X: DOUBLE(TURNOVER)');
+
+    expect(checkFormula(formula, registry, { variables: ['TURNOVER'] })).toEqual([]);
+    expect(checkFormula(parse('X: turnoverRate * 2'), registry, { variables: ['TURNOVERRATE'] })).toEqual([]);
+    expect(checkFormula(parse('X: TURNOVERRATE * 2'), registry, { variables: ['turnoverRate'] })).toEqual([]);
+    expect(checkFormula(formula).map((d) => d.code)).toEqual([
+      DiagnosticCode.UnknownFunction,
+      DiagnosticCode.UndefinedVariable,
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { createCustomDataEvaluator, CustomStockData } from '../custom-data-interface';
+import { createParser } from '../parser';
+
+describe('CustomDataEvaluator', () => {
+  const stock: CustomStockData = {
+    symbol: 'AAPL',
+    data: {
+      date: ['2024-01-01', '2024-01-02', '2024-01-03'],
+      opens: [150, 152, 151],
+      highs: [155, 156, 154],
+      lows: [149, 151, 150],
+      closes: [153, 154, 152],
+      volumes: [1000, 1200, 1100],
+      customIndicator: [1, 2, 3]
+    }
+  };
+
+  test('should expose extra data fields and indicators as formula variables', () => {
+    const evaluator = createCustomDataEvaluator();
+    const formula = createParser('X: C + CUSTOMINDICATOR\nY: rsi - 60').parseFormula();
+
+    const result = evaluator.evaluateCombinedFormula({
+      stocks: [stock],
+      indicators: [{ name: 'RSI', data: [70, 65, 60] }],
+      formula
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.results).toEqual([
+      { stockSymbol: 'AAPL', outputName: 'X', data: [154, 156, 155] },
+      { stockSymbol: 'AAPL', outputName: 'Y', data: [10, 5, 0] }
+    ]);
+  });
+
+  test('should skip indicators whose length does not match the stock data', () => {
+    const evaluator = createCustomDataEvaluator();
+    const formula = createParser('X: RSI').parseFormula();
+
+    const result = evaluator.evaluateCombinedFormula({
+      stocks: [stock],
+      indicators: [{ name: 'RSI', data: [70, 65] }],
+      formula
+    });
+
+    expect(result.results).toEqual([]);
+    expect(result.errors).toEqual(['Error evaluating stock AAPL: Undefined variable: RSI at position 1:4']);
+  });
+
+  test('should skip extra data fields whose length does not match the stock data', () => {
+    const evaluator = createCustomDataEvaluator();
+    const partial: CustomStockData = { ...stock, data: { ...stock.data, weeklyFlow: [5, 6] } };
+
+    const unused = evaluator.evaluateCombinedFormula({
+      stocks: [partial],
+      formula: createParser('X: C - 150').parseFormula()
+    });
+    const used = createCustomDataEvaluator().evaluateCombinedFormula({
+      stocks: [partial],
+      formula: createParser('X: WEEKLYFLOW').parseFormula()
+    });
+
+    expect(unused.errors).toEqual([]);
+    expect(unused.results).toEqual([{ stockSymbol: 'AAPL', outputName: 'X', data: [3, 4, 2] }]);
+    expect(used.errors).toEqual(['Error evaluating stock AAPL: Undefined variable: WEEKLYFLOW at position 1:4']);
+  });
+});
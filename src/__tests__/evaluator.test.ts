@@ -1,6 +1,9 @@
 import { InputDataBuilder } from '../data';
-import { createEvaluator } from '../evaluator';
+import { createEvaluator, EvaluationError, EvaluatorOptions } from '../evaluator';
+import { DefaultFunctionRegistry, EvaluationContext, globalFunctionRegistry } from '../function-registry';
 import { createParser } from '../parser';
+import { LineType } from '../plot-style';
+import { TimeFrame } from '../timeframe';
 
 describe('Evaluator', () => {
   let inputData: any;
@@ -115,6 +118,59 @@ describe('Evaluator', () => {
     expect(result.outputLines[0].data).toEqual([3, 3, 3, 3, 3]);
   });
 
+  test('should resolve TDX price aliases case-insensitively', () => {
+    const parser = createParser('A: CLOSE - OPEN\nB: high - Low\nX: vol + VOLUME - V')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([1, 1, 1, 1, 1]);
+    expect(result.outputLines[1].data).toEqual([3, 3, 3, 3, 3]);
+    expect(result.outputLines[2].data).toEqual([100, 200, 300, 400, 500]);
+  });
+
+  test('should evaluate AMOUNT when amounts are provided', () => {
+    const data = new InputDataBuilder()
+      .addBar(10, 12, 9, 11, 100, 1100)
+      .addBar(11, 13, 10, 12, 200, 2400)
+      .build();
+    const formula = createParser('AVGPRICE: AMOUNT / VOL\nX: AMO').parseFormula();
+    
+    const result = createEvaluator(data).evaluateFormula(formula);
+    
+    expect(data.amounts).toEqual([1100, 2400]);
+    expect(result.outputLines[0].data).toEqual([11, 12]);
+    expect(result.outputLines[1].data).toEqual([1100, 2400]);
+  });
+
+  test('should reject AMOUNT without amounts data', () => {
+    const formula = createParser('X: AMOUNT').parseFormula();
+    
+    expect(inputData.amounts).toBeUndefined();
+    expect(() => createEvaluator(inputData).evaluateFormula(formula)).toThrow(
+      'Undefined variable: AMOUNT'
+    );
+    expect(() => new InputDataBuilder().addBar(1, 1, 1, 1, 1, 10).addBar(1, 1, 1, 1, 1).build()).toThrow(
+      'Amount must be provided for every bar or for none'
+    );
+  });
+
+  test('should resolve injected variables case-insensitively', () => {
+    const formula = createParser('HSL:=TURNOVERRATE\nX: HSL + turnoverRate').parseFormula();
+    const evaluator = createEvaluator(inputData, undefined, { turnoverRate: [1, 2, 3, 4, null] });
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([2, 4, 6, 8, null]);
+  });
+
+  test('should reject injected variables with mismatched length', () => {
+    expect(() => createEvaluator(inputData, undefined, new Map([['TURNOVER', [1, 2]]]))).toThrow(
+      'Variable TURNOVER has 2 values, expected 5'
+    );
+  });
+
   test('should handle assignment statements', () => {
     const parser = createParser('MA5 := MA(C, 2)\nSIGNAL: MA5')
     const formula = parser.parseFormula();
@@ -587,6 +643,371 @@ describe('Evaluator', () => {
     expect(result.outputLines[0].data[4]).toBe(3);
   });
 
+  test('should evaluate bars-since functions', () => {
+    const parser = createParser(
+      'S:=C=12 OR C=14;\nA: BARSLAST(S);\nB: BARSSINCE(S);\nD: BARSSINCEN(S, 2);\nE: BARSLASTCOUNT(C > 12);'
+    )
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    // S: [0, 1, 0, 1, 0]
+    expect(result.outputLines[0].data).toEqual([null, 0, 1, 0, 1]);
+    expect(result.outputLines[1].data).toEqual([null, 0, 1, 2, 3]);
+    expect(result.outputLines[2].data).toEqual([null, 0, 1, 0, 1]);
+    // C > 12: [0, 0, 1, 1, 1]
+    expect(result.outputLines[3].data).toEqual([0, 0, 1, 2, 3]);
+  });
+
+  test('should evaluate bar count functions and variables', () => {
+    const parser = createParser('A: BARSCOUNT(REF(C, 2));\nB: CURRBARSCOUNT;\nD: totalBarsCount;')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([null, null, 1, 2, 3]);
+    expect(result.outputLines[1].data).toEqual([5, 4, 3, 2, 1]);
+    expect(result.outputLines[2].data).toEqual([5, 5, 5, 5, 5]);
+  });
+
+  test('should evaluate REF with per-bar offsets', () => {
+    const parser = createParser('X: REF(C, BARSLAST(C=12 OR C=14) + 1);')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    // BARSLAST+1: [null, 1, 2, 1, 2]
+    expect(result.outputLines[0].data).toEqual([null, 11, 11, 13, 13]);
+  });
+
+  test('should floor fractional REF offsets', () => {
+    const parser = createParser('A: REF(C, 1.5);\nB: REF(C, IF(C > 12, 2.5, 1.9));')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([null, 11, 12, 13, 14]);
+    expect(result.outputLines[1].data).toEqual([null, 11, 11, 12, 13]);
+  });
+
+  test('should evaluate rolling functions with per-bar periods', () => {
+    const parser = createParser(
+      'N:=IF(C>13, 3, 2);\nA: SUM(C, N);\nB: MA(C, N);\nD: HHV(V, N);\nE: LLV(L, N);\nF: COUNT(C>11, N);'
+    )
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    // N: [2, 2, 2, 3, 3]
+    expect(result.outputLines[0].data).toEqual([null, 23, 25, 39, 42]);
+    expect(result.outputLines[1].data).toEqual([null, 11.5, 12.5, 13, 14]);
+    expect(result.outputLines[2].data).toEqual([null, 200, 300, 400, 500]);
+    expect(result.outputLines[3].data).toEqual([null, 9, 10, 10, 11]);
+    expect(result.outputLines[4].data).toEqual([null, 1, 2, 3, 3]);
+  });
+
+  test('should treat period 0 as all bars so far', () => {
+    const parser = createParser('A: SUM(V, 0);\nB: HHV(H, 0);\nD: LLV(L, 0);\nE: COUNT(C>12, 0);')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([100, 300, 600, 1000, 1500]);
+    expect(result.outputLines[1].data).toEqual([12, 13, 14, 15, 16]);
+    expect(result.outputLines[2].data).toEqual([9, 9, 9, 9, 9]);
+    expect(result.outputLines[3].data).toEqual([0, 0, 1, 2, 3]);
+  });
+
+  test('should evaluate VALUEWHEN function', () => {
+    const parser = createParser('X: VALUEWHEN(C=12 OR C=14, V);')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([null, 200, 200, 400, 400]);
+  });
+
+  test('should evaluate FILTER and BACKSET functions', () => {
+    const parser = createParser('A: FILTER(C > 11, 2);\nB: BACKSET(C = 14, 2);')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    // C > 11: [0, 1, 1, 1, 1]，第2根成立后其后2根被过滤
+    expect(result.outputLines[0].data).toEqual([0, 1, 0, 0, 1]);
+    // C = 14 出现在第4根，向前共2根置1
+    expect(result.outputLines[1].data).toEqual([0, 0, 1, 1, 0]);
+  });
+
+  test('should evaluate EVERY, EXIST and LAST functions', () => {
+    const parser = createParser(
+      'A: EVERY(C > 11, 2);\nB: EXIST(C = 14, 2);\nD: LAST(C > 11, 3, 1);\nE: EVERY(C > 11, 0);'
+    )
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([null, 0, 1, 1, 1]);
+    expect(result.outputLines[1].data).toEqual([null, 0, 0, 1, 1]);
+    expect(result.outputLines[2].data).toEqual([null, null, null, 0, 1]);
+    expect(result.outputLines[3].data).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  test('should evaluate math functions', () => {
+    const evaluate = (source: string) =>
+      createEvaluator(inputData).evaluateFormula(createParser(`X: ${source}`).parseFormula())
+        .outputLines[0].data[0];
+    
+    expect(evaluate('SQRT(16)')).toBe(4);
+    expect(evaluate('POW(2, 10)')).toBe(1024);
+    expect(evaluate('EXP(0)')).toBe(1);
+    expect(evaluate('LN(EXP(2))')).toBeCloseTo(2);
+    expect(evaluate('LOG(1000)')).toBeCloseTo(3);
+    expect(evaluate('ROUND(2.5)')).toBe(3);
+    expect(evaluate('ROUND(-2.5)')).toBe(-3);
+    expect(evaluate('ROUND2(1.005, 2)')).toBe(1.01);
+    expect(evaluate('INTPART(-3.7)')).toBe(-3);
+    expect(evaluate('INTPART(-0.5)')).toBe(0);
+    expect(evaluate('CEILING(3.2)')).toBe(4);
+    expect(evaluate('FLOOR(-3.2)')).toBe(-4);
+    expect(evaluate('MOD(5, 3)')).toBe(2);
+    expect(evaluate('MOD(-3.5, 2)')).toBe(0.5);
+    expect(evaluate('SIGN(-2)')).toBe(-1);
+    expect(evaluate('REVERSE(C)')).toBe(-11);
+    expect(evaluate('SIN(0) + COS(0)')).toBe(1);
+    expect(evaluate('TAN(ATAN(1))')).toBeCloseTo(1);
+    expect(evaluate('BETWEEN(C, 12, 10)')).toBe(1);
+    expect(evaluate('RANGE(C, 11, 12)')).toBe(0);
+  });
+
+  test('should map math domain errors to null', () => {
+    const parser = createParser('A: SQRT(C - 13);\nB: LN(C - 12);\nD: MOD(C, C - 11);\nE: ASIN(C - 12);')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([null, null, 0, 1, Math.SQRT2]);
+    expect(result.outputLines[1].data).toEqual([null, null, 0, Math.LN2, Math.log(3)]);
+    expect(result.outputLines[2].data).toEqual([null, 0, 1, 2, 3]);
+    expect(result.outputLines[3].data).toEqual([-Math.PI / 2, 0, Math.PI / 2, null, null]);
+  });
+
+  test('should propagate null through math functions', () => {
+    const parser = createParser('X: POW(REF(C, 1), 2);')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines[0].data).toEqual([null, 121, 144, 169, 196]);
+  });
+
+  describe('statistics functions', () => {
+    // 收盘价 10, 12, 11, 15, 14，参考值与通达信/Excel的同名函数一致
+    const statsData = new InputDataBuilder()
+      .addBar(10, 10, 10, 10, 100)
+      .addBar(12, 12, 12, 12, 100)
+      .addBar(11, 11, 11, 11, 100)
+      .addBar(15, 15, 15, 15, 100)
+      .addBar(14, 14, 14, 14, 100)
+      .build();
+
+    const lastValue = (source: string, variables?: Record<string, (number | null)[]>) => {
+      const result = createEvaluator(statsData, undefined, variables).evaluateFormula(
+        createParser(`X: ${source}`).parseFormula()
+      );
+      return result.outputLines[0].data[4];
+    };
+
+    test('should use the sample estimate for STD and VAR', () => {
+      expect(lastValue('STD(C, 5)')).toBeCloseTo(2.07364, 5);
+      expect(lastValue('VAR(C, 5)')).toBeCloseTo(4.3, 10);
+      expect(lastValue('STDP(C, 5)')).toBeCloseTo(1.85472, 5);
+      expect(lastValue('VARP(C, 5)')).toBeCloseTo(3.44, 10);
+    });
+
+    test('should compute CV from the same estimator as STD', () => {
+      expect(lastValue('CV(C, 5)')).toBeCloseTo(2.07364 / 12.4, 5);
+      expect(lastValue('CV(C, 5) - STD(C, 5) / MA(C, 5)')).toBeCloseTo(0, 12);
+    });
+
+    test('should evaluate deviation functions', () => {
+      expect(lastValue('AVEDEV(C, 5)')).toBeCloseTo(1.68, 10);
+      expect(lastValue('DEVSQ(C, 5)')).toBeCloseTo(17.2, 10);
+    });
+
+    test('should evaluate linear regression functions', () => {
+      expect(lastValue('SLOPE(C, 5)')).toBeCloseTo(1.1, 10);
+      expect(lastValue('FORCAST(C, 5)')).toBeCloseTo(14.6, 10);
+    });
+
+    test('should evaluate covariance and correlation', () => {
+      expect(lastValue('COVAR(C, 2 * C + 1, 5)')).toBeCloseTo(6.88, 10);
+      expect(lastValue('RELATE(C, 2 * C + 1, 5)')).toBeCloseTo(1, 10);
+      expect(lastValue('CORR(C, 0 - C, 5)')).toBeCloseTo(-1, 10);
+    });
+
+    test('should evaluate BETA against an index series', () => {
+      // 指数收益率恰好是个股收益率的一半，贝塔系数为2
+      const closes = [10, 12, 11, 15, 14];
+      const index = [100];
+      for (let i = 1; i < closes.length; i++) {
+        index.push(index[i - 1] * (1 + (closes[i] / closes[i - 1] - 1) / 2));
+      }
+
+      expect(lastValue('BETA(C, INDEXC, 4)', { INDEXC: index })).toBeCloseTo(2, 10);
+      expect(lastValue('BETA(C, C, 4)')).toBeCloseTo(1, 10);
+    });
+
+    test('should require enough bars', () => {
+      const result = createEvaluator(statsData).evaluateFormula(
+        createParser('A: STD(C, 3);\nB: BETA(C, C, 2);').parseFormula()
+      );
+
+      expect(result.outputLines[0].data.slice(0, 3)).toEqual([null, null, 1]);
+      // 第一根K线没有收益率，第二根K线的窗口内只有一个收益率
+      expect(result.outputLines[1].data).toEqual([null, null, 1, 1, 1]);
+    });
+  });
+
+  test('should evaluate HHVBARS and LLVBARS functions', () => {
+    const data = new InputDataBuilder()
+      .addBar(10, 12, 9, 11, 100)
+      .addBar(11, 15, 8, 12, 200)
+      .addBar(12, 13, 10, 13, 300)
+      .addBar(13, 15, 11, 14, 400)
+      .addBar(14, 14, 12, 15, 500)
+      .build();
+    const parser = createParser('A: HHVBARS(H, 3);\nB: LLVBARS(L, 3);\nD: HHVBARS(H, 0);')
+    const formula = parser.parseFormula();
+    
+    const result = createEvaluator(data).evaluateFormula(formula);
+    
+    // H: [12, 15, 13, 15, 14]，最高值出现多次时取最近一次
+    expect(result.outputLines[0].data).toEqual([null, null, 1, 0, 1]);
+    // L: [9, 8, 10, 11, 12]
+    expect(result.outputLines[1].data).toEqual([null, null, 1, 2, 2]);
+    expect(result.outputLines[2].data).toEqual([0, 0, 1, 0, 1]);
+  });
+
+  test('should evaluate FINDHIGH and FINDLOW families', () => {
+    const data = new InputDataBuilder()
+      .addBar(10, 12, 9, 11, 100)
+      .addBar(11, 15, 8, 12, 200)
+      .addBar(12, 13, 10, 13, 300)
+      .addBar(13, 15, 11, 14, 400)
+      .addBar(14, 14, 12, 15, 500)
+      .build();
+    const parser = createParser(
+      'A: FINDHIGH(H, 1, 3, 2);\nB: FINDHIGHBARS(H, 1, 3, 2);\nD: FINDLOW(L, 0, 3, 1);\nE: FINDLOWBARS(L, 0, 3, 1);'
+    )
+    const formula = parser.parseFormula();
+    
+    const result = createEvaluator(data).evaluateFormula(formula);
+    
+    // 前1周期起的3周期内第2高的H
+    expect(result.outputLines[0].data).toEqual([null, null, null, 13, 15]);
+    expect(result.outputLines[1].data).toEqual([null, null, null, 1, 3]);
+    expect(result.outputLines[2].data).toEqual([null, null, 8, 8, 10]);
+    expect(result.outputLines[3].data).toEqual([null, null, 1, 2, 2]);
+  });
+
+  test('should match brute force HHV and LLV on long random series', () => {
+    // 固定种子的线性同余随机数，保证测试可重复
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const builder = new InputDataBuilder();
+    for (let i = 0; i < 2000; i++) {
+      const price = Math.round(random() * 100);
+      builder.addBar(price, price, price, price, 100);
+    }
+    const data = builder.build();
+    const period = 37;
+    const values = createEvaluator(data)
+      .evaluateFormula(createParser(`A: HHV(REF(C, 1), ${period});\nB: LLV(C, ${period});`).parseFormula())
+      .outputLines.map((line) => line.data);
+    
+    for (let i = period - 1; i < data.numBars; i++) {
+      const window = data.closes.slice(i - period + 1, i + 1);
+      // REF(C, 1)的窗口对应前一根K线开始的收盘价，第一根为空值
+      const previous = data.closes.slice(Math.max(0, i - period), i);
+      expect(values[0][i]).toBe(Math.max(...previous));
+      expect(values[1][i]).toBe(Math.min(...window));
+    }
+  });
+
+  describe('zigzag functions', () => {
+    // 收盘价 10, 12, 15, 13, 11, 12, 14, 16, 15，按10%转向的折线端点为第1、3、5、8根，
+    // 其中只有第3根（波峰）和第5根（波谷）被反向变动确认，起点和最后的16尚未确认
+    const closes = [10, 12, 15, 13, 11, 12, 14, 16, 15];
+    const builder = new InputDataBuilder();
+    closes.forEach((close) => builder.addBar(close, close, close, close, 100));
+    const zigData = builder.build();
+
+    const evaluate = (source: string) =>
+      createEvaluator(zigData).evaluateFormula(createParser(source).parseFormula()).outputLines.map(
+        (line) => line.data
+      );
+
+    test('should evaluate ZIG line', () => {
+      const [zig] = evaluate('X: ZIG(C, 10);');
+
+      expect(zig.map((value) => Number(value!.toFixed(4)))).toEqual([
+        10, 12.5, 15, 13, 11, 12.6667, 14.3333, 16, 15,
+      ]);
+    });
+
+    test('should evaluate PEAK and TROUGH families', () => {
+      const [peak, previousPeak, peakBars, trough, troughBars] = evaluate(
+        'A: PEAK(C, 10, 1);\nB: PEAK(C, 10, 2);\nD: PEAKBARS(C, 10, 1);\nE: TROUGH(C, 10);\nF: TROUGHBARS(C, 10, 1);'
+      );
+
+      expect(peak).toEqual([null, null, 15, 15, 15, 15, 15, 15, 15]);
+      expect(previousPeak).toEqual([null, null, null, null, null, null, null, null, null]);
+      expect(peakBars).toEqual([null, null, 0, 1, 2, 3, 4, 5, 6]);
+      expect(trough).toEqual([null, null, null, null, 11, 11, 11, 11, 11]);
+      expect(troughBars).toEqual([null, null, null, null, 0, 1, 2, 3, 4]);
+    });
+
+    test('should only count confirmed pivots in swing functions', () => {
+      const swingData = new InputDataBuilder();
+      [10, 15, 12, 16, 13, 17].forEach((close) => swingData.addBar(close, close, close, close, 100));
+      const lastValues = createEvaluator(swingData.build())
+        .evaluateFormula(
+          createParser('A: PEAK(C, 10, 1);\nB: PEAK(C, 10, 2);\nD: TROUGH(C, 10, 2);\nE: ZIG(C, 10);').parseFormula()
+        )
+        .outputLines.map((line) => line.data[5]);
+
+      // 最后的17还没有出现10%的回落，只是ZIG的末段端点，不算波峰
+      expect(lastValues).toEqual([16, 15, 12, 17]);
+    });
+
+    test('should accept price type codes', () => {
+      const [byCode, bySeries, peakByCode, peakBySeries] = evaluate(
+        'A: ZIG(3, 10);\nB: ZIG(C, 10);\nD: PEAK(1, 10, 1);\nE: PEAK(H, 10, 1);'
+      );
+
+      expect(byCode).toEqual(bySeries);
+      expect(peakByCode).toEqual(peakBySeries);
+      expect(() => globalFunctionRegistry.getFunction('ZIG')!([[3, 3], [10, 10]])).toThrow(
+        'ZIG price type codes 0-3 require input data'
+      );
+    });
+  });
+
   // 错误处理测试
   test('should throw error for undefined variable', () => {
     const parser = createParser('UNDEFINED: UnknownVar')
@@ -694,7 +1115,9 @@ describe('Evaluator', () => {
     
     expect(result.outputLines).toHaveLength(1);
     expect(result.outputLines[0].name).toBe('STYLED');
-    expect(result.outputLines[0].styles).toContain('COLORSTICK');
+    expect(result.outputLines[0].styles).toEqual([
+      { type: 'LineType', name: 'COLORSTICK', lineType: LineType.ColorStick },
+    ]);
   });
 
   // 复杂公式测试
@@ -734,4 +1157,222 @@ describe('Evaluator', () => {
       expect(result.outputLines[0].data).toEqual(testCase.expected);
     }
   });
+
+  test('should include source span in runtime errors', () => {
+    const parser = createParser('A := C\nRESULT: A + MISSING');
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    try {
+      evaluator.evaluateFormula(formula);
+      throw new Error('expected EvaluationError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(EvaluationError);
+      expect((error as EvaluationError).message).toBe('Undefined variable: MISSING at position 2:13');
+      expect((error as EvaluationError).span?.start).toEqual({ offset: 19, line: 2, column: 13 });
+    }
+  });
+
+  test('should locate errors thrown by function implementations', () => {
+    const parser = createParser('X: MA(C, 2) + REF(C, -1)');
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    expect(() => {
+      evaluator.evaluateFormula(formula);
+    }).toThrow('REF offset must be non-negative at position 1:15');
+  });
+
+  describe('evaluation context', () => {
+    test('should pass input data and bar helpers to functions', () => {
+      const registry = new DefaultFunctionRegistry();
+      let received: EvaluationContext | undefined;
+      registry.registerFunction('LASTONLY', (args, context) => {
+        received = context;
+        return args[0].map((value, i) => (context!.isLastBar(i) ? value : null));
+      });
+      const formula = createParser('X: LASTONLY(C)\nY: MA(C, 2)').parseFormula();
+
+      const result = createEvaluator(inputData, registry, undefined, {
+        symbol: '1.600000',
+        dates: ['2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08'],
+      }).evaluateFormula(formula);
+
+      expect(result.outputLines[0].data).toEqual([null, null, null, null, 15]);
+      expect(received).toMatchObject({
+        inputData,
+        numBars: 5,
+        lastIndex: 4,
+        symbol: '1.600000',
+        logger: console,
+      });
+      expect(received!.dates![4]).toBe('2024-01-08');
+      expect(received!.barsToEnd(1)).toBe(4);
+      expect(received!.constant(2)).toEqual([2, 2, 2, 2, 2]);
+      // 上下文中的注册器包含全局函数，可以调用其他函数
+      expect(received!.registry.getFunction('MA')!([[1, 2, 3], [2, 2, 2]])).toEqual([null, 1.5, 2.5]);
+    });
+
+    test('should use the configured logger', () => {
+      const registry = new DefaultFunctionRegistry();
+      registry.registerFunction('NOISY', (args, context) => {
+        context!.logger.warn('NOISY called');
+        return args[0];
+      });
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+      createEvaluator(inputData, registry, undefined, { logger }).evaluateFormula(
+        createParser('X: NOISY(C)').parseFormula()
+      );
+
+      expect(logger.warn).toHaveBeenCalledWith('NOISY called');
+    });
+
+    test('should pass bound formula parameters to functions', () => {
+      const registry = new DefaultFunctionRegistry();
+      const received: Record<string, number>[] = [];
+      registry.registerFunction('SHOWPARAMS', (args, context) => {
+        received.push(context!.params);
+        return args[0];
+      });
+      const formula = createParser('PARAM n(2, 1, 4);\nPARAM M(5);\nX: SHOWPARAMS(C)').parseFormula();
+      const evaluator = createEvaluator(inputData, registry);
+
+      evaluator.evaluateFormula(formula);
+      evaluator.evaluateFormula(formula, { n: 3 });
+      evaluator.evaluateFormula(createParser('X: SHOWPARAMS(C)').parseFormula());
+
+      expect(received).toEqual([{ N: 2, M: 5 }, { N: 3, M: 5 }, {}]);
+    });
+
+    test('should reject dates of wrong length only when time variables are used', () => {
+      const evaluator = createEvaluator(inputData, undefined, undefined, { dates: ['2024-01-02'] });
+
+      expect(evaluator.evaluateFormula(createParser('X: C').parseFormula()).outputLines[0].data).toEqual([
+        11, 12, 13, 14, 15,
+      ]);
+      expect(() => evaluator.evaluateFormula(createParser('X: C + DATE').parseFormula())).toThrow(
+        'Dates have 1 values, expected 5 at position 1:8'
+      );
+    });
+  });
+
+  describe('formula parameters', () => {
+    const formula = createParser('PARAM N(2, 1, 4);\nX: REF(C, N) + N;').parseFormula();
+
+    test('should bind declared defaults', () => {
+      const result = createEvaluator(inputData).evaluateFormula(formula);
+
+      expect(result.outputLines[0].data).toEqual([null, null, 13, 14, 15]);
+    });
+
+    test('should apply overrides by name in any case', () => {
+      const evaluator = createEvaluator(inputData);
+
+      expect(evaluator.evaluateFormula(formula, { n: 3 }).outputLines[0].data).toEqual([
+        null,
+        null,
+        null,
+        14,
+        15,
+      ]);
+      // 覆盖值只对本次求值生效
+      expect(evaluator.evaluateFormula(formula).outputLines[0].data).toEqual([null, null, 13, 14, 15]);
+    });
+
+    test('should resolve parameters in any case', () => {
+      const mixed = createParser('PARAM n(1, 1, 10);\nX: REF(C, N) + n;').parseFormula();
+
+      expect(createEvaluator(inputData).evaluateFormula(mixed, { N: 2 }).outputLines[0].data).toEqual([
+        null,
+        null,
+        13,
+        14,
+        15,
+      ]);
+    });
+
+    test('should check overrides against the declared step', () => {
+      const stepped = createParser('PARAM N(2, 1, 9, 2);\nX: C + N;').parseFormula();
+      const evaluator = createEvaluator(inputData);
+
+      expect(evaluator.evaluateFormula(stepped, { N: 5 }).outputLines[0].data).toEqual([16, 17, 18, 19, 20]);
+      expect(() => evaluator.evaluateFormula(stepped, { N: 4 })).toThrow(
+        'Parameter N must change in steps of 2'
+      );
+    });
+
+    test('should reject unknown or out of range overrides', () => {
+      const evaluator = createEvaluator(inputData);
+
+      expect(() => evaluator.evaluateFormula(formula, { M: 1 })).toThrow('Unknown parameter: M');
+      expect(() => evaluator.evaluateFormula(formula, { N: 5 })).toThrow('Parameter N must be at most 4');
+      expect(() => evaluator.evaluateFormula(formula, { N: 0 })).toThrow('Parameter N must be at least 1');
+      expect(() => evaluator.evaluateFormula(formula, { N: NaN })).toThrow(
+        'Parameter N must be a finite number'
+      );
+    });
+  });
+
+  describe('bar position and time variables', () => {
+    const evaluate = (source: string, options?: EvaluatorOptions) =>
+      createEvaluator(inputData, undefined, undefined, options)
+        .evaluateFormula(createParser(source).parseFormula())
+        .outputLines.map((line) => line.data);
+    const dates = ['2024-01-05', '2024-01-08 09:30', '2024/02/29', '20241231 14:59:30', '2025-01-01'];
+
+    test('should evaluate ISLASTBAR and BARPOS', () => {
+      expect(evaluate('A: ISLASTBAR;\nB: BARPOS;')).toEqual([
+        [0, 0, 0, 0, 1],
+        [1, 2, 3, 4, 5],
+      ]);
+    });
+
+    test('should encode dates and times like TDX', () => {
+      const [date, time, year, month, day, hour, minute, weekday] = evaluate(
+        'A: DATE;\nB: TIME;\nD: YEAR;\nE: MONTH;\nF: DAY;\nG: HOUR;\nI: MINUTE;\nJ: weekday;',
+        { dates }
+      );
+
+      expect(date).toEqual([1240105, 1240108, 1240229, 1241231, 1250101]);
+      expect(time).toEqual([0, 93000, 0, 145930, 0]);
+      expect(year).toEqual([2024, 2024, 2024, 2024, 2025]);
+      expect(month).toEqual([1, 1, 2, 12, 1]);
+      expect(day).toEqual([5, 8, 29, 31, 1]);
+      expect(hour).toEqual([0, 9, 0, 14, 0]);
+      expect(minute).toEqual([0, 30, 0, 59, 0]);
+      expect(weekday).toEqual([5, 1, 4, 2, 3]);
+    });
+
+    test('should filter bars by date', () => {
+      const [signal] = evaluate('X: DATE >= 1240229 AND WEEKDAY <> 2;', { dates });
+
+      expect(signal).toEqual([0, 0, 1, 0, 1]);
+    });
+
+    test('should evaluate PERIOD from the timeframe', () => {
+      expect(evaluate('X: PERIOD;', { timeframe: TimeFrame.MIN_5 })).toEqual([[0, 0, 0, 0, 0]]);
+      expect(evaluate('X: PERIOD;', { timeframe: TimeFrame.DAILY })).toEqual([[4, 4, 4, 4, 4]]);
+    });
+
+    test('should report missing or invalid dates', () => {
+      expect(() => evaluate('X: C + DATE;')).toThrow('Variable DATE requires bar dates at position 1:8');
+      expect(() => evaluate('X: PERIOD;')).toThrow('Variable PERIOD requires a timeframe');
+      expect(() =>
+        evaluate('X: TIME;', { dates: ['2024-01-05', '2024-02-30', '2024-03-01', '2024-03-04', '2024-03-05'] })
+      ).toThrow('Invalid bar date: 2024-02-30');
+    });
+  });
+
+  test('should allow referencing named outputs', () => {
+    const parser = createParser('K: C + 1\nJ: K * 2')
+    const formula = parser.parseFormula();
+    const evaluator = createEvaluator(inputData);
+    
+    const result = evaluator.evaluateFormula(formula);
+    
+    expect(result.outputLines).toHaveLength(2);
+    expect(result.outputLines[1].data).toEqual([24, 26, 28, 30, 32]);
+  });
 });
+
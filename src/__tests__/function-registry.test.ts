@@ -0,0 +1,278 @@
+import {
+  DefaultFunctionRegistry,
+  FunctionCategory,
+  FunctionRegistry,
+  FunctionType,
+  ParameterKind,
+  getFunctionInfo,
+} from '../function-registry';
+import { checkFormula } from '../checker';
+import { integrateIndicatorsPackage } from '../indicators-integration';
+import { InputDataBuilder } from '../data';
+import { createEvaluator } from '../evaluator';
+import { createParser } from '../parser';
+
+describe('FunctionRegistry', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should accept registries without metadata methods', () => {
+    // 只实现必需成员的第三方注册器
+    const functions = new Map<string, FunctionType>([
+      ['TRIPLE', (args) => args[0].map((v) => (v === null ? null : v * 3))],
+    ]);
+    const registry: FunctionRegistry = {
+      registerFunction: (name, func) => void functions.set(name.toUpperCase(), func),
+      unregisterFunction: (name) => functions.delete(name.toUpperCase()),
+      getFunction: (name) => functions.get(name.toUpperCase()),
+      getAllFunctionNames: () => Array.from(functions.keys()),
+      hasFunction: (name) => functions.has(name.toUpperCase()),
+    };
+    const inputData = new InputDataBuilder().addBar(1, 1, 1, 1, 1).addBar(2, 2, 2, 2, 2).build();
+    const formula = createParser('X: TRIPLE(C) + MA(C, 2)').parseFormula();
+
+    expect(getFunctionInfo(registry, 'triple')).toMatchObject({ name: 'TRIPLE', documented: false, maxArgs: Infinity });
+    expect(getFunctionInfo(registry, 'MISSING')).toBeUndefined();
+    expect(checkFormula(formula, registry)).toEqual([]);
+    expect(createEvaluator(inputData, registry).evaluateFormula(formula).outputLines[0].data).toEqual([null, 7.5]);
+  });
+
+  test('should expose metadata of builtin functions', () => {
+    const registry = new DefaultFunctionRegistry();
+    const info = registry.getFunctionInfo('ma');
+
+    expect(info).toMatchObject({
+      name: 'MA',
+      minArgs: 2,
+      maxArgs: 2,
+      category: FunctionCategory.Statistics,
+      description: '简单移动平均',
+      documented: true,
+    });
+    expect(info!.params.map((p) => [p.name, p.kind])).toEqual([
+      ['X', ParameterKind.Series],
+      ['N', ParameterKind.Series],
+    ]);
+  });
+
+  test('should derive arity from parameter defaults', () => {
+    const registry = new DefaultFunctionRegistry();
+    integrateIndicatorsPackage(registry);
+
+    const macd = registry.getFunctionInfo('MACD')!;
+    expect(macd.minArgs).toBe(1);
+    expect(macd.maxArgs).toBe(4);
+    expect(registry.getFunctionInfo('STOCH')!.params.map((p) => p.name)).toEqual([
+      'HIGH',
+      'LOW',
+      'CLOSE',
+      'KPERIOD',
+      'DPERIOD',
+    ]);
+  });
+
+  test('should describe undocumented functions without arity limits', () => {
+    const registry = new DefaultFunctionRegistry();
+    registry.registerFunction('MYFUNC', (args) => args[0]);
+
+    expect(registry.getFunctionInfo('myfunc')).toMatchObject({
+      name: 'MYFUNC',
+      params: [],
+      minArgs: 0,
+      maxArgs: Infinity,
+      category: FunctionCategory.Other,
+      documented: false,
+    });
+    expect(registry.getFunctionInfo('NOT_EXIST')).toBeUndefined();
+  });
+
+  test('should flag future functions', () => {
+    const registry = new DefaultFunctionRegistry();
+
+    expect(registry.getFunctionInfo('ZIG')).toMatchObject({
+      category: FunctionCategory.Pattern,
+      future: true,
+    });
+    expect(registry.getFunctionInfo('MA')!.future).toBe(false);
+    expect(
+      registry
+        .listFunctions()
+        .filter((info) => info.future)
+        .map((info) => info.name)
+        .sort()
+    ).toEqual(['PEAK', 'PEAKBARS', 'TROUGH', 'TROUGHBARS', 'ZIG']);
+  });
+
+  test('should list functions by category', () => {
+    const registry = new DefaultFunctionRegistry();
+    integrateIndicatorsPackage(registry);
+
+    const logic = registry.listFunctions(FunctionCategory.Logic).map((info) => info.name);
+    expect(logic.sort()).toEqual(['BETWEEN', 'CROSS', 'EVERY', 'EXIST', 'IF', 'LAST', 'RANGE']);
+    expect(registry.listFunctions(FunctionCategory.Indicator).map((info) => info.name)).toContain(
+      'MACD'
+    );
+    expect(registry.listFunctions()).toHaveLength(registry.getAllFunctionNames().length);
+  });
+
+  test('should select outputs of multi-output functions', () => {
+    const registry = new DefaultFunctionRegistry();
+    registry.registerMultiOutputFunction(
+      'RANGEBAND',
+      (args) => {
+        const [high, low] = args;
+        return {
+          TOP: high,
+          BOTTOM: low,
+          MID: high.map((value, i) => (value === null || low[i] === null ? null : (value + low[i]!) / 2)),
+        };
+      },
+      { outputs: ['MID', 'TOP', 'BOTTOM'] }
+    );
+    const inputData = new InputDataBuilder().addBar(1, 4, 2, 3, 100).addBar(2, 6, 2, 5, 100).build();
+
+    const formula = createParser('A: RANGEBAND(H, L)\nB: RANGEBAND.top(H, L)\nD: RANGEBAND.BOTTOM(H, L)').parseFormula();
+    const result = createEvaluator(inputData, registry).evaluateFormula(formula);
+
+    expect(result.outputLines.map((line) => line.data)).toEqual([
+      [3, 4],
+      [4, 6],
+      [2, 2],
+    ]);
+    expect(() =>
+      createEvaluator(inputData, registry).evaluateFormula(createParser('X: RANGEBAND.WIDTH(H, L)').parseFormula())
+    ).toThrow('Function RANGEBAND has no output WIDTH, available: TOP, BOTTOM, MID');
+    expect(() =>
+      createEvaluator(inputData, registry).evaluateFormula(createParser('X: MA.DEA(C, 2)').parseFormula())
+    ).toThrow('Function MA has no output DEA');
+  });
+
+  test('should call multi-output functions with their default output', () => {
+    const registry = new DefaultFunctionRegistry();
+    registry.registerMultiOutputFunction('SPREAD', (args) => ({ LOW: args[0], HIGH: args[1] }), {
+      outputs: ['HIGH', 'LOW'],
+    });
+
+    expect(registry.getFunction('spread')!([[1, 2], [3, 4]])).toEqual([3, 4]);
+    expect(registry.getMultiOutputFunction('SPREAD')!([[1, 2], [3, 4]])).toEqual({ LOW: [1, 2], HIGH: [3, 4] });
+    expect(registry.getMultiOutputFunction('MA')).toBeUndefined();
+
+    registry.registerFunction('SPREAD', (args) => args[0]);
+    expect(registry.getMultiOutputFunction('SPREAD')).toBeUndefined();
+  });
+
+  test('should expose all components of indicator package functions', () => {
+    const registry = new DefaultFunctionRegistry();
+    integrateIndicatorsPackage(registry);
+    const builder = new InputDataBuilder();
+    for (let i = 0; i < 60; i++) {
+      const close = 10 + Math.sin(i / 5) * 2 + i * 0.1;
+      builder.addBar(close, close + 0.5, close - 0.5, close, 100);
+    }
+    const inputData = builder.build();
+
+    const formula = createParser(
+      'DIF: MACD(C)\nDEA: MACD.DEA(C)\nHIST: MACD.HIST(C)\nMID: BBANDS(C)\nUP: BBANDS.UPPER(C)\nLOW: BBANDS.LOWER(C)\nD: STOCH.D(H, L, C)'
+    ).parseFormula();
+    const [dif, dea, hist, mid, upper, lower, d] = createEvaluator(inputData, registry)
+      .evaluateFormula(formula)
+      .outputLines.map((line) => line.data);
+
+    expect(registry.getFunctionInfo('MACD')!.outputs).toEqual(['DIF', 'DEA', 'HIST']);
+    expect(hist[59]).toBeCloseTo(dif[59]! - dea[59]!, 10);
+    expect(upper[59]! - mid[59]!).toBeCloseTo(mid[59]! - lower[59]!, 10);
+    expect(upper[59]!).toBeGreaterThan(mid[59]!);
+    expect(d[59]).not.toBeNull();
+  });
+
+  test('should fill omitted arguments with default values', () => {
+    const registry = new DefaultFunctionRegistry();
+    registry.registerFunction(
+      'SCALE',
+      (args) => {
+        const [data, factor] = args;
+        return data.map((value, i) => (value === null ? null : value * factor[i]!));
+      },
+      {
+        params: [
+          { name: 'X', kind: ParameterKind.Series },
+          { name: 'K', kind: ParameterKind.Constant, defaultValue: 10 },
+        ],
+      }
+    );
+    const inputData = new InputDataBuilder().addBar(1, 2, 1, 2, 100).addBar(2, 3, 2, 3, 100).build();
+
+    const formula = createParser('A: SCALE(C)\nB: SCALE(C, 2)').parseFormula();
+    const result = createEvaluator(inputData, registry).evaluateFormula(formula);
+
+    expect(result.outputLines[0].data).toEqual([20, 30]);
+    expect(result.outputLines[1].data).toEqual([4, 6]);
+  });
+
+  describe('TDX smoothing functions', () => {
+    // 收盘价 10, 11, 12, 13, 14，参考值与通达信客户端输出一致
+    const inputData = new InputDataBuilder()
+      .addBar(10, 10, 10, 10, 100)
+      .addBar(11, 11, 11, 11, 100)
+      .addBar(12, 12, 12, 12, 100)
+      .addBar(13, 13, 13, 13, 100)
+      .addBar(14, 14, 14, 14, 100)
+      .build();
+
+    const evaluate = (source: string, registry = new DefaultFunctionRegistry()) =>
+      createEvaluator(inputData, registry).evaluateFormula(createParser(source).parseFormula())
+        .outputLines[0].data;
+
+    const expectCloseTo = (actual: (number | null)[], expected: (number | null)[]) => {
+      expect(actual).toHaveLength(expected.length);
+      expected.forEach((value, i) => {
+        if (value === null) {
+          expect(actual[i]).toBeNull();
+        } else {
+          expect(actual[i]).toBeCloseTo(value, 4);
+        }
+      });
+    };
+
+    test('SMA should use the weighted recursive formula', () => {
+      expectCloseTo(evaluate('X: SMA(C, 3, 1)'), [10, 10.3333, 10.8889, 11.5926, 12.3951]);
+      expectCloseTo(evaluate('X: SMA(C, 3)'), [10, 10.3333, 10.8889, 11.5926, 12.3951]);
+      expectCloseTo(evaluate('X: SMA(C, 5, 2)'), [10, 10.4, 11.04, 11.824, 12.6944]);
+    });
+
+    test('EMA and EXPMA should start from the first bar', () => {
+      expectCloseTo(evaluate('X: EMA(C, 3)'), [10, 10.5, 11.25, 12.125, 13.0625]);
+      expectCloseTo(evaluate('X: EXPMA(C, 3)'), [10, 10.5, 11.25, 12.125, 13.0625]);
+    });
+
+    test('DMA should accept constant and series smoothing factors', () => {
+      expectCloseTo(evaluate('X: DMA(C, 0.5)'), [10, 10.5, 11.25, 12.125, 13.0625]);
+      expectCloseTo(evaluate('X: DMA(C, V / 1000)'), [10, 10.1, 10.29, 10.561, 10.9049]);
+    });
+
+    test('WMA should weight recent bars more', () => {
+      expectCloseTo(evaluate('X: WMA(C, 3)'), [null, null, 11.3333, 12.3333, 13.3333]);
+    });
+
+    test('SMA should skip leading null values', () => {
+      expectCloseTo(evaluate('X: SMA(REF(C, 2), 3, 1)'), [null, null, 10, 10.3333, 10.8889]);
+    });
+
+    test('indicator integration should keep TDX SMA and EMA', () => {
+      const registry = new DefaultFunctionRegistry();
+      integrateIndicatorsPackage(registry);
+
+      expectCloseTo(evaluate('X: SMA(C, 3, 1)', registry), [10, 10.3333, 10.8889, 11.5926, 12.3951]);
+      expectCloseTo(evaluate('X: EMA(C, 3)', registry), [10, 10.5, 11.25, 12.125, 13.0625]);
+    });
+
+    test('SMA should reject invalid weights', () => {
+      expect(() => evaluate('X: SMA(C, 3, 4)')).toThrow('SMA requires N > 0 and 0 < M <= N');
+    });
+  });
+});
@@ -0,0 +1,380 @@
+import { IndicatorsSync } from '@ixjb94/indicators';
+import { InputDataBuilder } from '../data';
+import { createEvaluator } from '../evaluator';
+import { DefaultFunctionRegistry, MultiSeriesResult } from '../function-registry';
+import { integrateIndicatorsPackage } from '../indicators-integration';
+import { createParser } from '../parser';
+
+type Series = (number | null)[];
+
+// 参考实现：按指标定义逐根K线直接计算，预热期内为null
+function rolling(
+  length: number,
+  period: number,
+  compute: (start: number, end: number) => number
+): Series {
+  return Array.from({ length }, (_, i) => (i < period - 1 ? null : compute(i - period + 1, i + 1)));
+}
+
+function sum(data: number[], start: number, end: number): number {
+  return data.slice(start, end).reduce((acc, value) => acc + value, 0);
+}
+
+function emaFromFirst(data: number[], period: number): number[] {
+  const alpha = 2 / (period + 1);
+  const result = [data[0]];
+  for (let i = 1; i < data.length; i++) {
+    result.push(result[i - 1] + alpha * (data[i] - result[i - 1]));
+  }
+  return result;
+}
+
+// Wilder平滑：前period个值取平均作为起点
+function wilder(data: number[], period: number, first: number): Series {
+  const result: Series = new Array(data.length).fill(null);
+  let value = sum(data, first, first + period) / period;
+  result[first + period - 1] = value;
+  for (let i = first + period; i < data.length; i++) {
+    value = (value * (period - 1) + data[i]) / period;
+    result[i] = value;
+  }
+  return result;
+}
+
+const reference = {
+  mom: (x: number[], n: number): Series => x.map((value, i) => (i < n ? null : value - x[i - n])),
+  roc: (x: number[], n: number): Series =>
+    x.map((value, i) => (i < n ? null : (value - x[i - n]) / x[i - n])),
+  obv: (c: number[], v: number[]): Series => {
+    let total = 0;
+    return c.map((value, i) => {
+      if (i > 0) {
+        total += value > c[i - 1] ? v[i] : value < c[i - 1] ? -v[i] : 0;
+      }
+      return total;
+    });
+  },
+  crossover: (a: number[], b: number[]): Series =>
+    a.map((value, i) =>
+      i > 0 && ((value > b[i] && a[i - 1] <= b[i - 1]) || (value < b[i] && a[i - 1] >= b[i - 1]))
+        ? 1
+        : 0
+    ),
+  rsi: (x: number[], n: number): Series => {
+    const gains = x.map((value, i) => (i === 0 ? 0 : Math.max(value - x[i - 1], 0)));
+    const losses = x.map((value, i) => (i === 0 ? 0 : Math.max(x[i - 1] - value, 0)));
+    const up = wilder(gains, n, 1);
+    const down = wilder(losses, n, 1);
+    return up.map((value, i) => (value === null ? null : (100 * value) / (value + down[i]!)));
+  },
+  macd: (x: number[], short: number, long: number, mid: number): MultiSeriesResult => {
+    const shortEma = emaFromFirst(x, short);
+    const longEma = emaFromFirst(x, long);
+    const dif = x.map((_, i) => shortEma[i] - longEma[i]);
+    const dea = emaFromFirst(dif.slice(long - 1), mid);
+    const pad = new Array(long - 1).fill(null);
+    return {
+      DIF: [...pad, ...dif.slice(long - 1)],
+      DEA: [...pad, ...dea],
+      HIST: [...pad, ...dea.map((value, i) => dif[long - 1 + i] - value)]
+    };
+  },
+  bbands: (x: number[], n: number, k: number): MultiSeriesResult => {
+    const mean = (start: number, end: number) => sum(x, start, end) / n;
+    const std = (start: number, end: number) =>
+      Math.sqrt(
+        x.slice(start, end).reduce((acc, value) => acc + (value - mean(start, end)) ** 2, 0) / n
+      );
+    return {
+      MIDDLE: rolling(x.length, n, mean),
+      UPPER: rolling(x.length, n, (start, end) => mean(start, end) + k * std(start, end)),
+      LOWER: rolling(x.length, n, (start, end) => mean(start, end) - k * std(start, end))
+    };
+  },
+  stoch: (
+    h: number[],
+    l: number[],
+    c: number[],
+    kPeriod: number,
+    dPeriod: number
+  ): MultiSeriesResult => {
+    const fast = rolling(c.length, kPeriod, (start, end) => {
+      const highest = Math.max(...h.slice(start, end));
+      const lowest = Math.min(...l.slice(start, end));
+      return highest === lowest ? 0 : (100 * (c[end - 1] - lowest)) / (highest - lowest);
+    });
+    const smooth = (data: Series, first: number): Series =>
+      data.map((_, i) =>
+        i < first ? null : sum(data as number[], i - dPeriod + 1, i + 1) / dPeriod
+      );
+    const k = smooth(fast, kPeriod + dPeriod - 2);
+    const d = smooth(k, kPeriod + 2 * dPeriod - 3);
+    return { K: k.map((value, i) => (d[i] === null ? null : value)), D: d };
+  },
+  cci: (h: number[], l: number[], c: number[], n: number): Series => {
+    const typical = c.map((value, i) => (h[i] + l[i] + value) / 3);
+    return typical.map((value, i) => {
+      if (i < 2 * n - 2) {
+        return null;
+      }
+      const average = sum(typical, i - n + 1, i + 1) / n;
+      const deviation =
+        typical.slice(i - n + 1, i + 1).reduce((acc, t) => acc + Math.abs(t - average), 0) / n;
+      return (value - average) / (0.015 * deviation);
+    });
+  },
+  willr: (h: number[], l: number[], c: number[], n: number): Series =>
+    rolling(c.length, n, (start, end) => {
+      const highest = Math.max(...h.slice(start, end));
+      const lowest = Math.min(...l.slice(start, end));
+      return highest === lowest ? 0 : (-100 * (highest - c[end - 1])) / (highest - lowest);
+    }),
+  atr: (h: number[], l: number[], c: number[], n: number): Series => {
+    const trueRange = h.map((value, i) =>
+      i === 0
+        ? value - l[i]
+        : Math.max(value - l[i], Math.abs(value - c[i - 1]), Math.abs(l[i] - c[i - 1]))
+    );
+    return wilder(trueRange, n, 0);
+  },
+  vwma: (c: number[], v: number[], n: number): Series => {
+    const weighted = c.map((value, i) => value * v[i]);
+    return rolling(c.length, n, (start, end) => sum(weighted, start, end) / sum(v, start, end));
+  },
+  adx: (h: number[], l: number[], n: number): Series => {
+    const plus = h.map((value, i) => {
+      const up = i === 0 ? 0 : value - h[i - 1];
+      const down = i === 0 ? 0 : l[i - 1] - l[i];
+      return up > down && up > 0 ? up : 0;
+    });
+    const minus = h.map((value, i) => {
+      const up = i === 0 ? 0 : value - h[i - 1];
+      const down = i === 0 ? 0 : l[i - 1] - l[i];
+      return down > up && down > 0 ? down : 0;
+    });
+    // 方向移动量用Wilder累计和平滑，DX再做Wilder平均
+    const dx: number[] = new Array(h.length).fill(0);
+    let up = sum(plus, 1, n);
+    let down = sum(minus, 1, n);
+    dx[n - 1] = (100 * Math.abs(up - down)) / (up + down);
+    for (let i = n; i < h.length; i++) {
+      up = (up * (n - 1)) / n + plus[i];
+      down = (down * (n - 1)) / n + minus[i];
+      dx[i] = (100 * Math.abs(up - down)) / (up + down);
+    }
+    return wilder(dx, n, n - 1);
+  }
+};
+
+// 构造一段有涨有跌、最高最低价与收盘价不重合的行情
+const BAR_COUNT = 80;
+const close = Array.from(
+  { length: BAR_COUNT },
+  (_, i) => 20 + 3 * Math.sin(i / 4) + i * 0.05 + (i % 3) * 0.2
+);
+const high = close.map((value, i) => value + 0.6 + (i % 4) * 0.1);
+const low = close.map((value, i) => value - 0.5 - (i % 5) * 0.1);
+const volume = close.map((_, i) => 1000 + ((i * 37) % 500));
+
+function expectSeriesClose(actual: Series, expected: Series): void {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => {
+    if (value === null) {
+      expect([i, actual[i]]).toEqual([i, null]);
+    } else {
+      expect(actual[i]).not.toBeNull();
+      expect(actual[i]).toBeCloseTo(value, 8);
+    }
+  });
+}
+
+function expectResultClose(actual: Series | MultiSeriesResult, expected: Series | MultiSeriesResult): void {
+  if (Array.isArray(expected)) {
+    expectSeriesClose(actual as Series, expected);
+    return;
+  }
+  expect(Object.keys(actual).sort()).toEqual(Object.keys(expected).sort());
+  for (const name of Object.keys(expected)) {
+    expectSeriesClose((actual as MultiSeriesResult)[name], expected[name]);
+  }
+}
+
+describe('Indicators integration', () => {
+  const registry = new DefaultFunctionRegistry();
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    integrateIndicatorsPackage(registry);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // 多输出指标返回全部输出，便于逐条比较
+  const call = (name: string, ...args: Series[]): Series | MultiSeriesResult =>
+    (registry.getMultiOutputFunction(name) ?? registry.getFunction(name)!)(args);
+  const constant = (value: number, length = BAR_COUNT): Series => new Array(length).fill(value);
+
+  const cases: Array<{
+    name: string;
+    inputs: number[][];
+    periods: number[];
+    expected: (inputs: number[][]) => Series | MultiSeriesResult;
+  }> = [
+    { name: 'RSI', inputs: [close], periods: [14], expected: ([x]) => reference.rsi(x, 14) },
+    {
+      name: 'MACD',
+      inputs: [close],
+      periods: [12, 26, 9],
+      expected: ([x]) => reference.macd(x, 12, 26, 9)
+    },
+    {
+      name: 'BBANDS',
+      inputs: [close],
+      periods: [20, 2],
+      expected: ([x]) => reference.bbands(x, 20, 2)
+    },
+    { name: 'MOM', inputs: [close], periods: [10], expected: ([x]) => reference.mom(x, 10) },
+    {
+      name: 'STOCH',
+      inputs: [high, low, close],
+      periods: [14, 3],
+      expected: ([h, l, c]) => reference.stoch(h, l, c, 14, 3)
+    },
+    {
+      name: 'CCI',
+      inputs: [high, low, close],
+      periods: [20],
+      expected: ([h, l, c]) => reference.cci(h, l, c, 20)
+    },
+    {
+      name: 'WILLR',
+      inputs: [high, low, close],
+      periods: [14],
+      expected: ([h, l, c]) => reference.willr(h, l, c, 14)
+    },
+    {
+      name: 'ATR',
+      inputs: [high, low, close],
+      periods: [14],
+      expected: ([h, l, c]) => reference.atr(h, l, c, 14)
+    },
+    {
+      name: 'VWMA',
+      inputs: [close, volume],
+      periods: [20],
+      expected: ([c, v]) => reference.vwma(c, v, 20)
+    },
+    {
+      name: 'ADX',
+      inputs: [high, low, close],
+      periods: [14],
+      expected: ([h, l]) => reference.adx(h, l, 14)
+    },
+    {
+      name: 'OBV',
+      inputs: [close, volume],
+      periods: [],
+      expected: ([c, v]) => reference.obv(c, v)
+    },
+    { name: 'ROC', inputs: [close], periods: [12], expected: ([x]) => reference.roc(x, 12) },
+    {
+      name: 'CROSSOVER',
+      inputs: [close, low.map((value, i) => value + (i % 7) * 0.3)],
+      periods: [],
+      expected: ([a, b]) => reference.crossover(a, b)
+    }
+  ];
+
+  test.each(cases)(
+    '$name should match the reference implementation',
+    ({ name, inputs, periods, expected }) => {
+      const result = call(name, ...inputs, ...periods.map((period) => constant(period)));
+
+      expectResultClose(result, expected(inputs));
+    }
+  );
+
+  test.each(cases)(
+    '$name should skip leading null values',
+    ({ name, inputs, periods, expected }) => {
+      // 前导空值（如REF产生的预热期）不参与计算，结果整体后移
+      const lead = 7;
+      const shifted = inputs.map((series) => [
+        ...new Array(lead).fill(null),
+        ...series.slice(lead)
+      ]);
+      const result = call(name, ...shifted, ...periods.map((period) => constant(period)));
+
+      const tail = expected(inputs.map((series) => series.slice(lead)));
+      const pad = (series: Series): Series => [...new Array(lead).fill(null), ...series];
+      expectResultClose(
+        result,
+        Array.isArray(tail)
+          ? pad(tail)
+          : Object.fromEntries(Object.entries(tail).map(([key, series]) => [key, pad(series)]))
+      );
+    }
+  );
+
+  test('should keep zero results', () => {
+    const flat = constant(10, 30) as number[];
+
+    expect(call('MOM', flat, constant(5, 30))).toEqual([
+      ...new Array(5).fill(null),
+      ...new Array(25).fill(0)
+    ]);
+    expect(call('OBV', close.slice(0, 3), [100, 200, 300])).toEqual([0, 200, 500]);
+    expect(call('CROSSOVER', [1, 2, 3], [3, 2, 1])).toEqual([0, 0, 1]);
+    expect(
+      (call('MACD', close, constant(12), constant(26), constant(9)) as MultiSeriesResult).HIST[25]
+    ).toBe(0);
+  });
+
+  test('should turn NaN results into null', () => {
+    // 价格不变时涨跌幅均为0，RSI为0/0
+    const result = call('RSI', constant(10, 20), constant(14, 20));
+
+    expect(result).toEqual(new Array(20).fill(null));
+  });
+
+  test('should leave bars with missing input empty', () => {
+    const data: Series = [...close.slice(0, 20)];
+    data[12] = null;
+    const result = call('MOM', data, constant(3, 20)) as Series;
+
+    expect(result[12]).toBeNull();
+    // 缺失值沿用前一根的值参与计算
+    expect(result[13]).toBeCloseTo(close[13] - close[10], 10);
+    expect(result[15]).toBeCloseTo(close[15] - close[11], 10);
+  });
+
+  test('should return empty series when every input is null', () => {
+    expect(call('ATR', [null, null], [null, null], [null, null], constant(14, 2))).toEqual([
+      null,
+      null
+    ]);
+    expect(call('BBANDS', [null, null], constant(20, 2), constant(2, 2))).toEqual({
+      MIDDLE: [null, null],
+      UPPER: [null, null],
+      LOWER: [null, null]
+    });
+  });
+
+  test('should surface indicator package errors as evaluation errors', () => {
+    const rsi = jest.spyOn(IndicatorsSync.prototype, 'rsi').mockImplementation(() => {
+      throw new Error('invalid period');
+    });
+    const errorLog = jest.spyOn(console, 'error');
+    const builder = new InputDataBuilder();
+    close.forEach((value) => builder.addBar(value, value, value, value, 100));
+    const evaluator = createEvaluator(builder.build(), registry);
+
+    expect(() => evaluator.evaluateFormula(createParser('X: RSI(C, 14)').parseFormula())).toThrow(
+      'RSI calculation failed: invalid period at position 1:4'
+    );
+    expect(errorLog).not.toHaveBeenCalled();
+    rsi.mockRestore();
+  });
+});
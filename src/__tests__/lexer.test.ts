@@ -106,4 +106,126 @@ describe('Lexer', () => {
     expect(tokens[2].tokenType).toBe(TokenType.Or);
     expect(tokens[3].tokenType).toBe(TokenType.Not);
   });
+
+  test('should tokenize Chinese identifiers', () => {
+    const lexer = new Lexer('短线:=MA(C,5);');
+
+    const tokens: Token[] = [];
+    let token = lexer.nextToken();
+
+    while (token.tokenType !== TokenType.Eof) {
+      tokens.push(token);
+      token = lexer.nextToken();
+    }
+
+    expect(tokens[0].tokenType).toBe(TokenType.Identifier);
+    expect(tokens[0].lexeme).toBe('短线');
+    expect(tokens[1].tokenType).toBe(TokenType.ColonAssign);
+    expect(tokens[2].tokenType).toBe(TokenType.Identifier);
+    expect(tokens[2].lexeme).toBe('MA');
+  });
+
+  test('should normalize full-width punctuation', () => {
+    const lexer = new Lexer('买点：CROSS（短线，长线）');
+
+    const tokens: Token[] = [];
+    let token = lexer.nextToken();
+
+    while (token.tokenType !== TokenType.Eof) {
+      tokens.push(token);
+      token = lexer.nextToken();
+    }
+
+    expect(tokens.map((t) => t.tokenType)).toEqual([
+      TokenType.Identifier,
+      TokenType.Colon,
+      TokenType.Identifier,
+      TokenType.LParen,
+      TokenType.Identifier,
+      TokenType.Comma,
+      TokenType.Identifier,
+      TokenType.RParen,
+    ]);
+    expect(tokens[0].lexeme).toBe('买点');
+    expect(tokens[4].lexeme).toBe('短线');
+    expect(tokens[6].lexeme).toBe('长线');
+  });
+
+  test('should handle full-width assignment and comparison operators', () => {
+    const lexer = new Lexer('信号：＝C＞＝O');
+
+    const tokens: Token[] = [];
+    let token = lexer.nextToken();
+
+    while (token.tokenType !== TokenType.Eof) {
+      tokens.push(token);
+      token = lexer.nextToken();
+    }
+
+    expect(tokens[1].tokenType).toBe(TokenType.ColonAssign);
+    expect(tokens[3].tokenType).toBe(TokenType.GtEq);
+  });
+
+  test('should tokenize mixed-script identifiers', () => {
+    const lexer = new Lexer('MA5均线 := MA(C, 5)　{全角空格}\n金叉: CROSS(MA5均线, 长期均线2)');
+
+    const tokens: Token[] = [];
+    let token = lexer.nextToken();
+
+    while (token.tokenType !== TokenType.Eof) {
+      tokens.push(token);
+      token = lexer.nextToken();
+    }
+
+    expect(tokens.some((t) => t.tokenType === TokenType.Illegal)).toBe(false);
+    expect(tokens[0].lexeme).toBe('MA5均线');
+    expect(tokens.filter((t) => t.tokenType === TokenType.Identifier).map((t) => t.lexeme)).toEqual([
+      'MA5均线',
+      'MA',
+      'C',
+      '金叉',
+      'CROSS',
+      'MA5均线',
+      '长期均线2',
+    ]);
+  });
+
+  test('should emit semicolon tokens', () => {
+    const lexer = new Lexer('A:=1;B:=2;');
+
+    const tokens: Token[] = [];
+    let token = lexer.nextToken();
+
+    while (token.tokenType !== TokenType.Eof) {
+      tokens.push(token);
+      token = lexer.nextToken();
+    }
+
+    expect(tokens.map((t) => t.tokenType)).toEqual([
+      TokenType.Identifier,
+      TokenType.ColonAssign,
+      TokenType.Number,
+      TokenType.Semicolon,
+      TokenType.Identifier,
+      TokenType.ColonAssign,
+      TokenType.Number,
+      TokenType.Semicolon,
+    ]);
+  });
+
+  test('should keep semicolons inside strings and comments', () => {
+    const lexer = new Lexer('{注释;不分隔} "A;B"');
+
+    const tokens: Token[] = [];
+    let token = lexer.nextToken();
+
+    while (token.tokenType !== TokenType.Eof) {
+      tokens.push(token);
+      token = lexer.nextToken();
+    }
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].tokenType).toBe(TokenType.String);
+    expect(tokens[0].lexeme).toBe('A;B');
+  });
 });
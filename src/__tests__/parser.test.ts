@@ -1,4 +1,6 @@
-import { createParser } from '../parser';
+import { createParser, parseWithDiagnostics, ParseError } from '../parser';
+import { DiagnosticCode, DiagnosticSeverity } from '../diagnostics';
+import { TokenType } from '../token';
 
 describe('Parser', () => {
   test('should parse simple expression', () => {
@@ -50,6 +52,26 @@ describe('Parser', () => {
     expect(formula.statements[0].type).toBe('Output');
   });
 
+  test('should parse style attributes case-insensitively', () => {
+    const formula = createParser('MA5: MA(C, 5), ColorRed, linethick2').parseFormula();
+
+    expect(formula.statements[0].type === 'Output' && formula.statements[0].styles).toEqual([
+      { type: 'Color', name: 'COLORRED', color: { r: 255, g: 0, b: 0 } },
+      { type: 'Thickness', name: 'LINETHICK2', thickness: 2 },
+    ]);
+  });
+
+  test('should keep styles that are not modeled', () => {
+    const { formula, diagnostics } = parseWithDiagnostics('X: C, DRAWABOVE, layer2, COLORPINK');
+
+    expect(diagnostics).toEqual([]);
+    expect(formula.statements[0].type === 'Output' && formula.statements[0].styles).toEqual([
+      { type: 'Other', name: 'DRAWABOVE' },
+      { type: 'Other', name: 'LAYER2' },
+      { type: 'Other', name: 'COLORPINK' },
+    ]);
+  });
+
   test('should throw error on invalid syntax', () => {
     const parser = createParser('MA5: MA(C, 5'); // 缺少右括号
     
@@ -65,4 +87,148 @@ describe('Parser', () => {
     expect(formula.statements).toHaveLength(1);
     expect(formula.statements[0].type).toBe('Output');
   });
+
+  test('should parse output selector of multi-output functions', () => {
+    const parser = createParser('DEA: MACD.DEA(C, 12, 26, 9)');
+    const formula = parser.parseFormula();
+    const expr = formula.statements[0].expr;
+    
+    expect(expr).toMatchObject({ type: 'FunctionCall', name: 'MACD', component: 'DEA' });
+    expect(expr.type === 'FunctionCall' && expr.args).toHaveLength(4);
+    expect(() => createParser('X: MACD.DEA').parseFormula()).toThrow();
+  });
+
+  test('should parse parameter declarations', () => {
+    const parser = createParser('PARAM N(5, 1, 100);\nparam M(-2)\nPARAM K(0.5, 0, 1, 0.1)\nX: MA(C, N)');
+    const formula = parser.parseFormula();
+
+    expect(formula.statements).toHaveLength(1);
+    expect(formula.params).toEqual([
+      expect.objectContaining({ name: 'N', defaultValue: 5, min: 1, max: 100 }),
+      expect.objectContaining({ name: 'M', defaultValue: -2 }),
+      expect.objectContaining({ name: 'K', defaultValue: 0.5, min: 0, max: 1, step: 0.1 }),
+    ]);
+    expect(formula.params![1]).not.toHaveProperty('min');
+    expect(formula.params![0].span).toMatchObject({ start: { line: 1, column: 1 } });
+    expect(createParser('PARAM:=1;\nX: PARAM').parseFormula().params).toBeUndefined();
+    expect(() => createParser('PARAM N(1, 2, 3, 4, 5)').parseFormula()).toThrow();
+    expect(() => createParser('PARAM N(C)').parseFormula()).toThrow();
+  });
+
+  test('should parse semicolon separated statements on one line', () => {
+    const parser = createParser('MA5:MA(C,5);MA10:MA(C,10);');
+    const formula = parser.parseFormula();
+    
+    expect(formula.statements).toHaveLength(2);
+    expect(formula.statements[0].type).toBe('Output');
+    expect(formula.statements[1].type).toBe('Output');
+  });
+
+  test('should treat semicolon and newline as equivalent terminators', () => {
+    const parser = createParser('A:=1;B:=2\n\nC1:A+B;\n;；D1:A-B');
+    const formula = parser.parseFormula();
+    
+    expect(formula.statements.map((s) => s.type)).toEqual([
+      'Assignment',
+      'Assignment',
+      'Output',
+      'Output',
+    ]);
+  });
+
+  test('should throw ParseError with located diagnostic', () => {
+    const parse = () => createParser('A := 1\nMA5: MA(C, 5').parseFormula();
+    
+    expect(parse).toThrow(ParseError);
+    expect(parse).toThrow(
+      expect.objectContaining({
+        diagnostic: expect.objectContaining({
+          code: DiagnosticCode.UnexpectedEof,
+          expected: [TokenType.RParen],
+          start: expect.objectContaining({ line: 2, column: 13 }),
+        }),
+      })
+    );
+  });
+
+  test('should report a missing separator between statements', () => {
+    const { formula, diagnostics } = parseWithDiagnostics('A: C 1\nB: O');
+    
+    expect(formula.statements).toHaveLength(2);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      code: DiagnosticCode.UnexpectedToken,
+      expected: [TokenType.Semicolon, TokenType.Newline, TokenType.Eof],
+      start: { line: 1, column: 6 },
+      message: '期望分号或换行符或文件结束，但遇到数字「1」',
+    });
+    expect(() => createParser('A: C 1').parseFormula()).toThrow(ParseError);
+  });
+
+  test('should report all errors with statement level recovery', () => {
+    const source = [
+      'MA5: MA(C, 5)',
+      'BAD1: MA(C, 5',
+      'MA10: MA(C, 10)',
+      'BAD2 := * 2',
+      'SIGNAL: CROSS(MA5, MA10)',
+    ].join('\n');
+    const { formula, diagnostics } = parseWithDiagnostics(source);
+    
+    expect(formula.statements).toHaveLength(3);
+    expect(diagnostics).toHaveLength(2);
+    
+    expect(diagnostics[0].code).toBe(DiagnosticCode.UnexpectedToken);
+    expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Error);
+    expect(diagnostics[0].expected).toEqual([TokenType.RParen]);
+    expect(diagnostics[0].start).toMatchObject({ line: 2, column: 14 });
+    expect(diagnostics[0].message).toBe('期望右括号，但遇到换行符');
+    
+    expect(diagnostics[1].start).toMatchObject({ line: 4, column: 9 });
+    expect(diagnostics[1].end).toMatchObject({ line: 4, column: 10 });
+    expect(diagnostics[1].expected).toContain(TokenType.Identifier);
+    expect(diagnostics[1].message).toContain('但遇到乘号');
+  });
+
+  test('should report illegal characters', () => {
+    const { formula, diagnostics } = parseWithDiagnostics('A: C @ 1;B: C');
+    
+    expect(formula.statements).toHaveLength(2);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].code).toBe(DiagnosticCode.IllegalToken);
+    expect(diagnostics[0].start).toMatchObject({ line: 1, column: 6 });
+  });
+
+  test('should return no diagnostics for valid formula', () => {
+    const { formula, diagnostics } = parseWithDiagnostics('MA5:MA(C,5);MA10:MA(C,10);');
+    
+    expect(diagnostics).toEqual([]);
+    expect(formula.statements).toHaveLength(2);
+  });
+
+  test('should populate source spans on statements and expressions', () => {
+    const parser = createParser('A := 1\nSIG: MA(C, 5) > -A');
+    const formula = parser.parseFormula();
+    
+    const assignment = formula.statements[0];
+    expect(assignment.span).toEqual({
+      start: { offset: 0, line: 1, column: 1 },
+      end: { offset: 6, line: 1, column: 7 },
+    });
+    
+    const output = formula.statements[1];
+    expect(output.span?.start).toEqual({ offset: 7, line: 2, column: 1 });
+    expect(output.span?.end).toEqual({ offset: 25, line: 2, column: 19 });
+    
+    if (output.type !== 'Output' || output.expr.type !== 'BinaryOp') {
+      throw new Error('unexpected AST shape');
+    }
+    const { left, right } = output.expr;
+    expect(output.expr.span?.start.column).toBe(6);
+    expect(left.span?.start.column).toBe(6);
+    expect(left.span?.end.column).toBe(14);
+    expect(right.type).toBe('UnaryOp');
+    expect(right.span?.start.column).toBe(17);
+    expect(right.span?.end.column).toBe(19);
+  });
 });
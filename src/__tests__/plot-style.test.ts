@@ -0,0 +1,38 @@
+import { LineType, Visibility, parsePlotStyle } from '../plot-style';
+
+describe('Plot styles', () => {
+  test.each([
+    ['DOTLINE', { type: 'LineType', lineType: LineType.DotLine }],
+    ['stick', { type: 'LineType', lineType: LineType.Stick }],
+    ['COLORSTICK', { type: 'LineType', lineType: LineType.ColorStick }],
+    ['VOLSTICK', { type: 'LineType', lineType: LineType.VolStick }],
+    ['NODRAW', { type: 'Visibility', visibility: Visibility.NoDraw }],
+    ['NOTEXT', { type: 'Visibility', visibility: Visibility.NoText }],
+    ['LINETHICK1', { type: 'Thickness', thickness: 1 }],
+    ['LineThick9', { type: 'Thickness', thickness: 9 }],
+    ['COLORRED', { type: 'Color', color: { r: 255, g: 0, b: 0 } }],
+    ['COLORLIGRAY', { type: 'Color', color: { r: 192, g: 192, b: 192 } }],
+    ['DRAWABOVE', { type: 'Other' }],
+    ['Layer2', { type: 'Other' }],
+    ['PRECIS3', { type: 'Other' }],
+  ])('should parse %s', (text, expected) => {
+    expect(parsePlotStyle(text)).toEqual({ ...expected, name: text.toUpperCase() });
+  });
+
+  test('should read custom colors in BBGGRR order', () => {
+    expect(parsePlotStyle('COLOR0000FF')).toMatchObject({ color: { r: 255, g: 0, b: 0 } });
+    expect(parsePlotStyle('COLOR00FF00')).toMatchObject({ color: { r: 0, g: 255, b: 0 } });
+    expect(parsePlotStyle('color8040ff')).toEqual({
+      type: 'Color',
+      name: 'COLOR8040FF',
+      color: { r: 255, g: 64, b: 128 },
+    });
+  });
+
+  test.each(['COLORPINK', 'COLOR00FF0', 'COLOR00FF00FF', 'COLORGGGGGG', 'LINETHICK0', 'LINETHICK10', 'MA5'])(
+    'should reject %s',
+    (text) => {
+      expect(parsePlotStyle(text)).toBeNull();
+    }
+  );
+});
@@ -0,0 +1,209 @@
+import { createParser } from '../parser';
+import { printFormula, printExpr } from '../printer';
+import {
+  Expr,
+  Formula,
+  createLiteralExpr,
+  createVariableExpr,
+  createUnaryOpExpr,
+  createBinaryOpExpr,
+  createFunctionCallExpr,
+  createGroupedExpr,
+  createAssignmentStatement,
+  createOutputStatement,
+  createFormula,
+  UnaryOperator,
+  BinaryOperator,
+} from '../ast';
+import { parsePlotStyle } from '../plot-style';
+
+// 去掉位置信息，只比较语法结构和注释内容
+function stripLocations(formula: Formula): unknown {
+  return JSON.parse(
+    JSON.stringify(
+      { statements: formula.statements, comments: (formula.comments ?? []).map((c) => c.text) },
+      (key, value) => (key === 'span' ? undefined : value)
+    )
+  );
+}
+
+function parse(source: string): Formula {
+  return createParser(source).parseFormula();
+}
+
+describe('Printer', () => {
+  test('should print canonical formula text', () => {
+    const formula = parse('ma5:ma(c,5),colorred,linethick2,color00ff00\nx:=c>ref(c,1) and not(v<100)');
+
+    expect(printFormula(formula)).toBe(
+      'ma5: MA(c, 5), COLORRED, LINETHICK2, COLOR00FF00;\nx := c > REF(c, 1) AND NOT (v < 100);\n'
+    );
+  });
+
+  test('should print parameter declarations first', () => {
+    const formula = parse('X: MA(C, N)\nparam N(5,1,100,1)\nPARAM M(-2)');
+
+    expect(printFormula(formula)).toBe('PARAM N(5, 1, 100, 1);\nPARAM M(-2);\nX: MA(C, N);\n');
+    expect(printFormula(formula, { compact: true, semicolons: false })).toBe(
+      'PARAM N(5,1,100,1)\nPARAM M(-2)\nX:MA(C,N)\n'
+    );
+  });
+
+  test('should support compact output without semicolons', () => {
+    const formula = parse('MA5 : MA( C , 5 );短线 := (C + O) / 2;');
+
+    expect(printFormula(formula, { compact: true, semicolons: false })).toBe(
+      'MA5:MA(C,5)\n短线:=(C+O)/2\n'
+    );
+  });
+
+  test('should preserve leading and trailing comments', () => {
+    const source = [
+      '{均线系统}',
+      'MA5:MA(C,5); {短期}',
+      '{长期均线',
+      '用于判断趋势}',
+      'MA10:MA(C,10);',
+      '{结尾注释}',
+    ].join('\n');
+
+    expect(printFormula(parse(source))).toBe(
+      [
+        '{均线系统}',
+        'MA5: MA(C, 5); {短期}',
+        '{长期均线\n用于判断趋势}',
+        'MA10: MA(C, 10);',
+        '{结尾注释}',
+        '',
+      ].join('\n')
+    );
+    expect(printFormula(parse(source), { comments: false })).toBe(
+      'MA5: MA(C, 5);\nMA10: MA(C, 10);\n'
+    );
+  });
+
+  test('should print formulas built with AST constructors', () => {
+    const sum = createBinaryOpExpr(createVariableExpr('C'), BinaryOperator.Add, createVariableExpr('O'));
+    const formula = createFormula([
+      createAssignmentStatement(
+        'MID',
+        createBinaryOpExpr(sum, BinaryOperator.Div, createLiteralExpr(2))
+      ),
+      createOutputStatement(
+        'SIGNAL',
+        createFunctionCallExpr('cross', [createVariableExpr('C'), createVariableExpr('MID')]),
+        [parsePlotStyle('colorred')!]
+      ),
+    ]);
+
+    expect(printFormula(formula)).toBe('MID := (C + O) / 2;\nSIGNAL: CROSS(C, MID), COLORRED;\n');
+  });
+
+  test('should add parentheses to keep left associativity', () => {
+    const right = createBinaryOpExpr(createVariableExpr('B'), BinaryOperator.Sub, createVariableExpr('C'));
+    const expr = createBinaryOpExpr(createVariableExpr('A'), BinaryOperator.Sub, right);
+
+    expect(printExpr(expr)).toBe('A - (B - C)');
+    expect(printExpr(createUnaryOpExpr(UnaryOperator.Neg, right))).toBe('-(B - C)');
+  });
+
+  test('should print numbers without exponent notation', () => {
+    const print = (value: number) => printExpr(createLiteralExpr(value));
+
+    expect([1e-7, 1.2345e-10, 1e21, 1.5e22, -2.5e-8, 0.25].map(print)).toEqual([
+      '0.0000001',
+      '0.00000000012345',
+      '1000000000000000000000',
+      '15000000000000000000000',
+      '-0.000000025',
+      '0.25',
+    ]);
+    expect(printExpr(createUnaryOpExpr(UnaryOperator.Neg, createLiteralExpr(-1)))).toBe('-(-1)');
+    expect(printExpr(createUnaryOpExpr(UnaryOperator.Neg, createLiteralExpr(1e-7)))).toBe('-0.0000001');
+  });
+
+  test('should print equality comparisons with a single equals sign', () => {
+    const source = 'X: C = REF(C, 1) AND O == 10;\nY := C=O;';
+
+    expect(printFormula(parse(source))).toBe('X: C = REF(C, 1) AND O = 10;\nY := C = O;\n');
+    expect(printFormula(parse(source), { compact: true })).toBe('X:C=REF(C,1) AND O=10;\nY:=C=O;\n');
+    expect(stripLocations(parse(printFormula(parse(source), { compact: true })))).toEqual(
+      stripLocations(parse(source))
+    );
+  });
+
+  test('should round-trip a corpus of formulas', () => {
+    const corpus = [
+      'MA5:MA(C,5);MA10:MA(C,10);',
+      'VAR1:=(C-LLV(L,9))/(HHV(H,9)-LLV(L,9))*100;\nK:SMA(VAR1,3,1);D:SMA(K,3,1);J:3*K-2*D;',
+      '短线:=EMA(C,12)-EMA(C,26);\n买点：CROSS（短线，0），COLORRED；',
+      'X: IF(C > O AND V > REF(V, 1) OR NOT C < 10, 1, -1), STICK',
+      '{注释} A := -(-C) - -1\nC > O; {行尾}',
+      'R: ((C + 1) * (H - 2)) / 3 >= 10 == 1 <> 0',
+      'UP: BBANDS.UPPER(C, 20, 2) - MACD.DEA(C)',
+      'A: C*0.0000001 + 0.00000000012345;\nB: C + 1000000000000000000000 + 123456789012345680000000',
+    ];
+
+    for (const source of corpus) {
+      const first = parse(source);
+      const printed = printFormula(first);
+      expect(stripLocations(parse(printed))).toEqual(stripLocations(first));
+      // 格式化结果是稳定的
+      expect(printFormula(parse(printed))).toBe(printed);
+    }
+  });
+
+  test('should round-trip randomly generated formulas', () => {
+    // 简单的线性同余随机数生成器，保证测试可复现
+    let seed = 20240601;
+    const random = (n: number): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+    const variables = ['C', 'O', 'H', 'L', 'V', '短线', 'MA5'];
+    const functions = ['MA', 'REF', 'HHV', 'LLV', 'CROSS', 'MAX'];
+    const binaryOperators = Object.values(BinaryOperator);
+
+    const randomExpr = (depth: number): Expr => {
+      const choice = depth <= 0 ? random(2) : random(6);
+      switch (choice) {
+        case 0:
+          return createLiteralExpr(random(100) / (random(2) === 0 ? 1 : 4));
+        case 1:
+          return createVariableExpr(variables[random(variables.length)]);
+        case 2:
+          return createUnaryOpExpr(
+            random(2) === 0 ? UnaryOperator.Neg : UnaryOperator.Not,
+            randomExpr(depth - 1)
+          );
+        case 3:
+          return createFunctionCallExpr(functions[random(functions.length)], [
+            randomExpr(depth - 1),
+            randomExpr(depth - 1),
+          ]);
+        case 4:
+          return createGroupedExpr(randomExpr(depth - 1));
+        default:
+          return createBinaryOpExpr(
+            randomExpr(depth - 1),
+            binaryOperators[random(binaryOperators.length)],
+            randomExpr(depth - 1)
+          );
+      }
+    };
+
+    for (let i = 0; i < 200; i++) {
+      const formula = createFormula([
+        createAssignmentStatement('A', randomExpr(4)),
+        createOutputStatement(random(2) === 0 ? 'OUT' : null, randomExpr(4), [parsePlotStyle('COLORRED')!]),
+      ]);
+      const printed = printFormula(formula, { compact: random(2) === 0 });
+      const reparsed = parse(printed);
+
+      expect(stripLocations(parse(printFormula(reparsed)))).toEqual(stripLocations(reparsed));
+      expect(printFormula(reparsed, { compact: false })).toBe(
+        printFormula(parse(printFormula(reparsed)))
+      );
+    }
+  });
+});
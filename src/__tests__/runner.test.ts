@@ -0,0 +1,111 @@
+import { createRunner, SimpleStockData } from '../runner';
+import { TimeFrame } from '../timeframe';
+import { fetchStockData } from '../eastmoney-adapter';
+
+// 东方财富适配器依赖网络请求，这里的测试不需要
+jest.mock('../eastmoney-adapter', () => ({
+  fetchStockData: jest.fn(),
+  fetchMultipleStockData: jest.fn()
+}));
+
+describe('FormulaRunner', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  const data: SimpleStockData = {
+    symbol: '000001',
+    date: ['2024-01-01', '2024-01-02', '2024-01-03'],
+    opens: [10, 11, 12],
+    highs: [12, 13, 14],
+    lows: [9, 10, 11],
+    closes: [11, 12, 13],
+    volumes: [100, 200, 300],
+    customIndicators: {
+      turnoverRate: [1.5, 2, 2.5]
+    }
+  };
+
+  test('should expose custom indicators as formula variables', async () => {
+    const runner = createRunner();
+
+    const result = await runner.runFormula('HSL:=TURNOVERRATE;\nX: HSL * 2;', data);
+    await runner.close();
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([{ name: 'X', values: [3, 4, 5] }]);
+  });
+
+  test('should pass bar dates and timeframe to time variables', async () => {
+    const runner = createRunner();
+    const minuteData: SimpleStockData = {
+      ...data,
+      timeframe: TimeFrame.MIN_5,
+      date: ['2024-01-02 09:35', '2024-01-02 09:40', '2024-01-02 09:45']
+    };
+
+    const result = await runner.runFormula('D: DATE;\nT: TIME;\nP: PERIOD;', minuteData);
+    await runner.close();
+
+    expect(result.data).toEqual([
+      { name: 'D', values: [1240102, 1240102, 1240102] },
+      { name: 'T', values: [93500, 94000, 94500] },
+      { name: 'P', values: [0, 0, 0] }
+    ]);
+  });
+
+  test('should evaluate with parameter overrides', async () => {
+    const runner = createRunner();
+    const formulaText = 'PARAM N(1, 1, 10);\nX: C + N;';
+
+    const defaults = await runner.runFormula(formulaText, data);
+    const overridden = await runner.runFormula(formulaText, data, { params: { N: 10 } });
+    const batch = await runner.runBatchFormula(formulaText, [data], { params: { N: 2 } });
+    const invalid = await runner.runFormula(formulaText, data, { params: { N: 11 } });
+    await runner.close();
+
+    expect(defaults.data).toEqual([{ name: 'X', values: [12, 13, 14] }]);
+    expect(overridden.data).toEqual([{ name: 'X', values: [21, 22, 23] }]);
+    expect(batch.results).toEqual([{ symbol: '000001', name: 'X', values: [13, 14, 15] }]);
+    expect(invalid.error).toBe('Parameter N must be at most 10');
+  });
+
+  test('should report undefined variables when custom indicators are missing', async () => {
+    const runner = createRunner();
+
+    const result = await runner.runFormula('X: TURNOVERRATE;', { ...data, customIndicators: undefined });
+    await runner.close();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Undefined variable: TURNOVERRATE');
+  });
+
+  test('should skip fetched custom fields whose length does not match the bar count', async () => {
+    jest.mocked(fetchStockData).mockResolvedValue({
+      symbol: '000001',
+      data: {
+        date: data.date,
+        opens: data.opens,
+        highs: data.highs,
+        lows: data.lows,
+        closes: data.closes,
+        volumes: data.volumes,
+        turnoverRate: [1.5, 2, 2.5],
+        shortField: [1, 2]
+      }
+    });
+    const runner = createRunner();
+
+    const matched = await runner.runWithSymbol('X: TURNOVERRATE;', '000001', '20240101', '20240103');
+    const skipped = await runner.runWithSymbol('X: SHORTFIELD;', '000001', '20240101', '20240103');
+    await runner.close();
+
+    expect(matched.data).toEqual([{ name: 'X', values: [1.5, 2, 2.5] }]);
+    expect(skipped.success).toBe(false);
+    expect(skipped.error).toContain('Undefined variable: SHORTFIELD');
+  });
+});
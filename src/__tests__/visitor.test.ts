@@ -0,0 +1,158 @@
+import { createParser } from '../parser';
+import { printFormula } from '../printer';
+import { createVariableExpr, createLiteralExpr, Formula } from '../ast';
+import { walkFormula, transformFormula, transformExpr, matchExpr, NodePath, AstNode } from '../visitor';
+
+function parse(source: string): Formula {
+  return createParser(source).parseFormula();
+}
+
+describe('Visitor', () => {
+  test('should visit nodes in enter/leave order', () => {
+    const formula = parse('A := C + 1\nMA(A, 5)');
+    const events: string[] = [];
+
+    walkFormula(formula, {
+      enter: (node) => {
+        events.push(`enter ${node.type}`);
+      },
+      leave: (node) => {
+        events.push(`leave ${node.type}`);
+      },
+    });
+
+    expect(events).toEqual([
+      'enter Assignment',
+      'enter BinaryOp',
+      'enter Variable',
+      'leave Variable',
+      'enter Literal',
+      'leave Literal',
+      'leave BinaryOp',
+      'leave Assignment',
+      'enter Output',
+      'enter FunctionCall',
+      'enter Variable',
+      'leave Variable',
+      'enter Literal',
+      'leave Literal',
+      'leave FunctionCall',
+      'leave Output',
+    ]);
+  });
+
+  test('should call typed hooks with parent paths', () => {
+    const formula = parse('X: REF(MA(C, 5), 1)');
+    const found: Array<{ name: string; parents: string[] }> = [];
+
+    walkFormula(formula, {
+      Variable: (node, path) => {
+        const parents: string[] = [];
+        for (let p: NodePath | null = path.parent; p; p = p.parent) {
+          parents.push(`${p.node.type}.${p.key}${p.index !== null ? `[${p.index}]` : ''}`);
+        }
+        found.push({ name: node.name, parents });
+      },
+    });
+
+    expect(found).toEqual([
+      {
+        name: 'C',
+        parents: ['FunctionCall.args[0]', 'FunctionCall.expr', 'Output.statements[0]'],
+      },
+    ]);
+  });
+
+  test('should skip children when enter returns false', () => {
+    const formula = parse('X: MA(C, 5) + H');
+    const variables: string[] = [];
+
+    walkFormula(formula, {
+      enter: (node) => (node.type === 'FunctionCall' ? false : undefined),
+      Variable: (node) => {
+        variables.push(node.name);
+      },
+    });
+
+    expect(variables).toEqual(['H']);
+  });
+
+  test('should rename variables without mutating the original formula', () => {
+    const source = 'A := C + 1\nOUT: A * REF(A, 1)';
+    const formula = parse(source);
+
+    const renamed = transformFormula(formula, {
+      Variable: (node) => (node.name === 'A' ? { ...node, name: 'B' } : undefined),
+      Assignment: (node) => (node.variable === 'A' ? { ...node, variable: 'B' } : undefined),
+    });
+
+    expect(printFormula(renamed)).toBe('B := C + 1;\nOUT: B * REF(B, 1);\n');
+    expect(printFormula(formula)).toBe('A := C + 1;\nOUT: A * REF(A, 1);\n');
+  });
+
+  test('should share unchanged subtrees', () => {
+    const formula = parse('A := MA(C, 5)\nB: H - L');
+
+    const result = transformFormula(formula, {
+      Literal: (node) => (node.numericValue === 5 ? createLiteralExpr(10) : undefined),
+    });
+
+    expect(result).not.toBe(formula);
+    expect(result.statements[0]).not.toBe(formula.statements[0]);
+    expect(result.statements[1]).toBe(formula.statements[1]);
+    expect(transformFormula(formula, {})).toBe(formula);
+  });
+
+  test('should remove statements when transformer returns null', () => {
+    const formula = parse('A := 1\nB: C\nD: O');
+
+    const result = transformFormula(formula, {
+      Output: (node) => (node.name === 'B' ? null : undefined),
+    });
+
+    expect(printFormula(result)).toBe('A := 1;\nD: O;\n');
+  });
+
+  test('should transform expressions bottom-up', () => {
+    const formula = parse('X: (1 + 2) * C');
+    const statement = formula.statements[0];
+    const visited: string[] = [];
+
+    // 常量折叠：子节点先被折叠，父节点可以看到折叠后的结果
+    const folded = transformExpr(statement.expr, {
+      leave: (node: AstNode) => {
+        visited.push(node.type);
+        return undefined;
+      },
+      BinaryOp: (node) =>
+        node.left.type === 'Literal' && node.right.type === 'Literal'
+          ? createLiteralExpr(node.left.numericValue + node.right.numericValue)
+          : undefined,
+      Grouped: (node) => (node.expr.type === 'Literal' ? node.expr : undefined),
+    });
+
+    expect(folded).toEqual({
+      type: 'BinaryOp',
+      left: { type: 'Literal', value: 'Number', numericValue: 3, span: undefined },
+      operator: 'Mul',
+      right: expect.objectContaining({ type: 'Variable', name: 'C' }),
+      span: statement.expr.span,
+    });
+    expect(visited).toEqual(['Literal', 'Literal', 'Literal', 'Literal', 'Variable', 'BinaryOp']);
+  });
+
+  test('should dispatch expressions by type', () => {
+    const describe = (node: Parameters<typeof matchExpr>[0]): string =>
+      matchExpr(node, {
+        Literal: (n) => `literal ${n.numericValue}`,
+        Variable: (n) => `variable ${n.name}`,
+        UnaryOp: () => 'unary',
+        BinaryOp: () => 'binary',
+        FunctionCall: (n) => `call ${n.name}`,
+        Grouped: () => 'grouped',
+      });
+
+    expect(describe(createVariableExpr('C'))).toBe('variable C');
+    expect(describe(createLiteralExpr(2))).toBe('literal 2');
+  });
+});
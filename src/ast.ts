@@ -1,4 +1,6 @@
 // 抽象语法树定义，对应Rust的ast.rs
+import { SourcePosition } from './token';
+import { PlotStyle } from './plot-style';
 
 export enum LiteralValue {
   Number = 'Number',
@@ -29,102 +31,169 @@ export enum BinaryOperator {
   Or = 'Or',      // OR
 }
 
-export type PlotStyle = string;
+// 节点在源码中的区间（end不含），由Parser填充，手动构造的节点可以没有
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// 注释（{...}），text不包含两侧花括号
+export interface Comment {
+  text: string;
+  span: SourceSpan;
+}
 
 // 表达式类型
 export type Expr = 
-  | { type: 'Literal'; value: LiteralValue; numericValue: number }
-  | { type: 'Variable'; name: string }
-  | { type: 'UnaryOp'; operator: UnaryOperator; operand: Expr }
-  | { type: 'BinaryOp'; left: Expr; operator: BinaryOperator; right: Expr }
-  | { type: 'FunctionCall'; name: string; args: Expr[] }
-  | { type: 'Grouped'; expr: Expr };
+  | { type: 'Literal'; value: LiteralValue; numericValue: number; span?: SourceSpan }
+  | { type: 'Variable'; name: string; span?: SourceSpan }
+  | { type: 'UnaryOp'; operator: UnaryOperator; operand: Expr; span?: SourceSpan }
+  | { type: 'BinaryOp'; left: Expr; operator: BinaryOperator; right: Expr; span?: SourceSpan }
+  | { type: 'FunctionCall'; name: string; args: Expr[]; component?: string; span?: SourceSpan }
+  | { type: 'Grouped'; expr: Expr; span?: SourceSpan };
 
 // 语句类型
 export type Statement = 
-  | { type: 'Assignment'; variable: string; expr: Expr }
-  | { type: 'Output'; name: string | null; expr: Expr; styles: PlotStyle[] };
+  | { type: 'Assignment'; variable: string; expr: Expr; span?: SourceSpan }
+  | { type: 'Output'; name: string | null; expr: Expr; styles: PlotStyle[]; span?: SourceSpan };
+
+// 公式参数（通达信的参数表），源码中写作 PARAM N(默认值, 最小值, 最大值, 步长)
+export interface FormulaParam {
+  name: string;
+  defaultValue: number;
+  min?: number;
+  max?: number;
+  step?: number;          // 参数优化时的步长
+  span?: SourceSpan;
+}
 
 // 完整的公式
 export interface Formula {
   statements: Statement[];
+  comments?: Comment[];   // 源码中的注释，由Parser填充，用于格式化输出时保留注释
+  params?: FormulaParam[];  // 参数声明，求值时作为常数变量使用
 }
 
 // 构造函数
-export function createLiteralExpr(value: number): Expr {
+export function createLiteralExpr(value: number, span?: SourceSpan): Expr {
   return {
     type: 'Literal',
     value: LiteralValue.Number,
     numericValue: value,
+    span,
   };
 }
 
-export function createVariableExpr(name: string): Expr {
+export function createVariableExpr(name: string, span?: SourceSpan): Expr {
   return {
     type: 'Variable',
     name,
+    span,
   };
 }
 
-export function createUnaryOpExpr(operator: UnaryOperator, operand: Expr): Expr {
+export function createUnaryOpExpr(
+  operator: UnaryOperator,
+  operand: Expr,
+  span?: SourceSpan
+): Expr {
   return {
     type: 'UnaryOp',
     operator,
     operand,
+    span,
   };
 }
 
 export function createBinaryOpExpr(
   left: Expr,
   operator: BinaryOperator,
-  right: Expr
+  right: Expr,
+  span?: SourceSpan
 ): Expr {
   return {
     type: 'BinaryOp',
     left,
     operator,
     right,
+    span,
   };
 }
 
-export function createFunctionCallExpr(name: string, args: Expr[]): Expr {
+// component为多输出函数选择的输出名称（如 MACD.DEA(C) 中的DEA），省略时使用默认输出
+export function createFunctionCallExpr(
+  name: string,
+  args: Expr[],
+  span?: SourceSpan,
+  component?: string
+): Expr {
   return {
     type: 'FunctionCall',
     name,
     args,
+    ...(component !== undefined ? { component } : {}),
+    span,
   };
 }
 
-export function createGroupedExpr(expr: Expr): Expr {
+export function createGroupedExpr(expr: Expr, span?: SourceSpan): Expr {
   return {
     type: 'Grouped',
     expr,
+    span,
   };
 }
 
-export function createAssignmentStatement(variable: string, expr: Expr): Statement {
+export function createAssignmentStatement(
+  variable: string,
+  expr: Expr,
+  span?: SourceSpan
+): Statement {
   return {
     type: 'Assignment',
     variable,
     expr,
+    span,
   };
 }
 
 export function createOutputStatement(
   name: string | null,
   expr: Expr,
-  styles: PlotStyle[] = []
+  styles: PlotStyle[] = [],
+  span?: SourceSpan
 ): Statement {
   return {
     type: 'Output',
     name,
     expr,
     styles,
+    span,
   };
 }
 
-export function createFormula(statements: Statement[]): Formula {
+export function createFormula(
+  statements: Statement[],
+  comments?: Comment[],
+  params?: FormulaParam[]
+): Formula {
   return {
     statements,
+    comments,
+    ...(params !== undefined ? { params } : {}),
+  };
+}
+
+export function createFormulaParam(
+  name: string,
+  defaultValue: number,
+  range: { min?: number; max?: number; step?: number } = {},
+  span?: SourceSpan
+): FormulaParam {
+  return {
+    name,
+    defaultValue,
+    ...range,
+    span,
   };
 }
@@ -0,0 +1,35 @@
+// K线时间解析：将数据源中的日期字符串转换为年月日时分秒
+export interface BarTime {
+  year: number;
+  month: number;    // 1-12
+  day: number;      // 1-31
+  hour: number;     // 日线及以上周期为0
+  minute: number;
+  second: number;
+  weekday: number;  // 0为星期日，1-6为星期一到星期六
+}
+
+// 日期部分支持 2024-01-02、2024/01/02、20240102，时间部分支持 10:30 和 10:30:00
+const BAR_TIME_PATTERN = /^(\d{4})([-/]?)(\d{2})\2(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// 解析K线日期，格式错误或日期不存在时返回null
+export function parseBarTime(text: string): BarTime | null {
+  const match = BAR_TIME_PATTERN.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour, minute, second] = [1, 3, 4, 5, 6, 7].map((group) =>
+    match[group] === undefined ? 0 : Number(match[group])
+  );
+  if (hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  // 用UTC构造日期，避免本地时区影响星期的计算，同时校验2月30日等不存在的日期
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return { year, month, day, hour, minute, second, weekday: date.getUTCDay() };
+}
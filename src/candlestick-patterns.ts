@@ -0,0 +1,198 @@
+// K线形态识别模块 - 直接读取当前行情的开高低收，返回0/1序列
+import { InputData } from './data';
+import { EvaluationContext, FunctionRegistry, FunctionCategory } from './function-registry';
+
+// 形态判断的阈值，均为相对比例
+export interface CandlestickPatternOptions {
+  dojiBody: number;     // 十字星：实体不超过振幅的比例
+  smallBody: number;    // 小实体（星线）：实体不超过振幅的比例
+  longBody: number;     // 大实体（长阳、长阴）：实体至少为振幅的比例
+  longShadow: number;   // 长影线：影线至少为实体的倍数
+  shortShadow: number;  // 短影线：影线不超过振幅的比例
+}
+
+export const DEFAULT_CANDLESTICK_PATTERN_OPTIONS: CandlestickPatternOptions = {
+  dojiBody: 0.1,
+  smallBody: 0.3,
+  longBody: 0.6,
+  longShadow: 2,
+  shortShadow: 0.1
+};
+
+// 单根K线的实体和影线
+interface Candle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  body: number;
+  range: number;
+  upperShadow: number;
+  lowerShadow: number;
+  bullish: boolean;
+  bearish: boolean;
+}
+
+function candleAt(inputData: InputData, i: number): Candle {
+  const open = inputData.opens[i];
+  const close = inputData.closes[i];
+  const high = inputData.highs[i];
+  const low = inputData.lows[i];
+  return {
+    open,
+    high,
+    low,
+    close,
+    body: Math.abs(close - open),
+    range: high - low,
+    upperShadow: high - Math.max(open, close),
+    lowerShadow: Math.min(open, close) - low,
+    bullish: close > open,
+    bearish: close < open
+  };
+}
+
+// 逐根K线判断形态，lookback为需要的前序K线数，不足时为0
+function scan(
+  context: EvaluationContext | undefined,
+  lookback: number,
+  matches: (candles: Candle[]) => boolean
+): number[] {
+  if (!context) {
+    throw new Error('Candlestick patterns require an evaluation context');
+  }
+  const { inputData } = context;
+  const result: number[] = [];
+  for (let i = 0; i < inputData.numBars; i++) {
+    if (i < lookback) {
+      result.push(0);
+      continue;
+    }
+    // candles[0]为当前K线，candles[1]为前一根，以此类推
+    const candles: Candle[] = [];
+    for (let j = 0; j <= lookback; j++) {
+      candles.push(candleAt(inputData, i - j));
+    }
+    result.push(matches(candles) ? 1 : 0);
+  }
+  return result;
+}
+
+/**
+ * 将K线形态函数注册到函数注册器中
+ * 形态只根据K线本身判断，不考虑所处的趋势
+ */
+export function integrateCandlestickPatterns(
+  functionRegistry: FunctionRegistry,
+  options: Partial<CandlestickPatternOptions> = {}
+): void {
+  const { dojiBody, smallBody, longBody, longShadow, shortShadow } = {
+    ...DEFAULT_CANDLESTICK_PATTERN_OPTIONS,
+    ...options
+  };
+
+  const isDoji = (candle: Candle) => candle.body <= dojiBody * candle.range;
+  const isSmallBody = (candle: Candle) => candle.body <= smallBody * candle.range;
+  const isLongBody = (candle: Candle) => candle.range > 0 && candle.body >= longBody * candle.range;
+
+  const register = (
+    name: string,
+    description: string,
+    descriptionEn: string,
+    lookback: number,
+    matches: (candles: Candle[]) => boolean
+  ) => {
+    functionRegistry.registerFunction(name, (_args, context) => scan(context, lookback, matches), {
+      params: [],
+      returns: '形态成立时为1，否则为0',
+      category: FunctionCategory.Pattern,
+      description,
+      descriptionEn
+    });
+  };
+
+  // 十字星：开盘价与收盘价几乎相等
+  register('PATTERN_DOJI', '十字星', 'Doji', 0, ([today]) => isDoji(today));
+
+  // 锤头线：下影线长、上影线短、实体位于顶端
+  register('PATTERN_HAMMER', '锤头线', 'Hammer', 0, ([today]) =>
+    today.body > 0 &&
+    today.lowerShadow >= longShadow * today.body &&
+    today.upperShadow <= shortShadow * today.range
+  );
+
+  // 倒锤头线（射击之星）：上影线长、下影线短、实体位于底端
+  register('PATTERN_SHOOTING_STAR', '倒锤头线/射击之星', 'Shooting star', 0, ([today]) =>
+    today.body > 0 &&
+    today.upperShadow >= longShadow * today.body &&
+    today.lowerShadow <= shortShadow * today.range
+  );
+
+  // 阳包阴：阳线实体完全包住前一根阴线实体
+  register('PATTERN_ENGULF_BULL', '阳包阴（看涨吞没）', 'Bullish engulfing', 1, ([today, yesterday]) =>
+    yesterday.bearish &&
+    today.bullish &&
+    today.open <= yesterday.close &&
+    today.close >= yesterday.open &&
+    today.body > yesterday.body
+  );
+
+  // 阴包阳：阴线实体完全包住前一根阳线实体
+  register('PATTERN_ENGULF_BEAR', '阴包阳（看跌吞没）', 'Bearish engulfing', 1, ([today, yesterday]) =>
+    yesterday.bullish &&
+    today.bearish &&
+    today.open >= yesterday.close &&
+    today.close <= yesterday.open &&
+    today.body > yesterday.body
+  );
+
+  // 早晨之星：长阴线、向下跳空的星线、收盘深入第一根实体一半以上的阳线
+  register('PATTERN_MORNING_STAR', '早晨之星', 'Morning star', 2, ([today, star, first]) =>
+    first.bearish &&
+    isLongBody(first) &&
+    isSmallBody(star) &&
+    Math.max(star.open, star.close) < first.close &&
+    today.bullish &&
+    today.close > (first.open + first.close) / 2
+  );
+
+  // 黄昏之星：长阳线、向上跳空的星线、收盘深入第一根实体一半以下的阴线
+  register('PATTERN_EVENING_STAR', '黄昏之星', 'Evening star', 2, ([today, star, first]) =>
+    first.bullish &&
+    isLongBody(first) &&
+    isSmallBody(star) &&
+    Math.min(star.open, star.close) > first.close &&
+    today.bearish &&
+    today.close < (first.open + first.close) / 2
+  );
+
+  // 红三兵：连续三根阳线，收盘价逐日抬高，开盘价位于前一根实体之内
+  register('PATTERN_THREE_WHITE_SOLDIERS', '红三兵', 'Three white soldiers', 2, (candles) =>
+    candles.every((candle) => candle.bullish && !isSmallBody(candle)) &&
+    [0, 1].every((j) => {
+      const [current, previous] = [candles[j], candles[j + 1]];
+      return (
+        current.close > previous.close &&
+        current.open >= previous.open &&
+        current.open <= previous.close
+      );
+    })
+  );
+
+  // 三只乌鸦：连续三根阴线，收盘价逐日降低，开盘价位于前一根实体之内
+  register('PATTERN_THREE_BLACK_CROWS', '三只乌鸦', 'Three black crows', 2, (candles) =>
+    candles.every((candle) => candle.bearish && !isSmallBody(candle)) &&
+    [0, 1].every((j) => {
+      const [current, previous] = [candles[j], candles[j + 1]];
+      return (
+        current.close < previous.close &&
+        current.open <= previous.open &&
+        current.open >= previous.close
+      );
+    })
+  );
+
+  // 跳空缺口：最低价高于前一根最高价（向上）或最高价低于前一根最低价（向下）
+  register('GAPUP', '向上跳空缺口', 'Gap up', 1, ([today, yesterday]) => today.low > yesterday.high);
+  register('GAPDOWN', '向下跳空缺口', 'Gap down', 1, ([today, yesterday]) => today.high < yesterday.low);
+}
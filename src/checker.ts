@@ -0,0 +1,236 @@
+// 静态语义检查器：在求值之前发现未定义变量、未知函数、参数个数错误等问题
+import { Formula, FormulaParam, SourceSpan } from './ast';
+import {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  createDiagnostic,
+} from './diagnostics';
+import { BAR_COUNT_VARIABLES, BAR_TIME_VARIABLES, BUILTIN_VARIABLES } from './evaluator';
+import { FunctionRegistry, getFunctionInfo, globalFunctionRegistry } from './function-registry';
+import { PlotStyleType, parsePlotStyle } from './plot-style';
+import { walk } from './visitor';
+
+export interface CheckOptions {
+  variables?: string[];   // 额外可用的变量（如自定义数据注入的变量）
+}
+
+const UNKNOWN_POSITION = { offset: 0, line: 1, column: 1 };
+
+// 同一输出只能有一个的样式类别（显示控制可以组合使用）
+const CONFLICTING_STYLE_NAMES: Partial<Record<PlotStyleType, string>> = {
+  LineType: '线型',
+  Color: '颜色',
+  Thickness: '线宽',
+};
+
+// 检查公式，返回所有诊断信息（不抛出异常）
+export function checkFormula(
+  formula: Formula,
+  registry: FunctionRegistry = globalFunctionRegistry,
+  options: CheckOptions = {}
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const builtins = new Set([
+    ...Object.keys(BUILTIN_VARIABLES),
+    ...Object.keys(BAR_COUNT_VARIABLES),
+    ...Object.keys(BAR_TIME_VARIABLES),
+    'PERIOD',
+  ]);
+  const defined = new Set<string>(builtins);
+  // 注入的变量与求值器一致，统一转为大写后比较
+  const injected = new Set((options.variables ?? []).map((name) => name.toUpperCase()));
+  const outputNames = new Set<string>();
+
+  // 每个变量第一次被定义的语句序号，用于区分"未定义"和"赋值之前使用"
+  const firstDefinition = new Map<string, number>();
+  formula.statements.forEach((statement, index) => {
+    const name = statement.type === 'Assignment' ? statement.variable : statement.name;
+    if (name !== null && !firstDefinition.has(name)) {
+      firstDefinition.set(name, index);
+    }
+  });
+
+  const report = (
+    code: DiagnosticCode,
+    message: string,
+    span: SourceSpan | undefined,
+    severity: DiagnosticSeverity = DiagnosticSeverity.Error
+  ): void => {
+    diagnostics.push(
+      createDiagnostic(
+        code,
+        message,
+        span?.start ?? UNKNOWN_POSITION,
+        span?.end ?? span?.start ?? UNKNOWN_POSITION,
+        [],
+        severity
+      )
+    );
+  };
+
+  // 参数在所有语句之前定义，参数名不区分大小写
+  const paramNames = new Set<string>();
+  for (const param of formula.params ?? []) {
+    const upperName = param.name.toUpperCase();
+    if (paramNames.has(upperName)) {
+      report(DiagnosticCode.DuplicateParameter, `参数「${param.name}」重复定义`, param.span);
+    }
+    if (builtins.has(upperName)) {
+      report(
+        DiagnosticCode.BuiltinReassignment,
+        `参数「${param.name}」与内置变量重名`,
+        param.span,
+        DiagnosticSeverity.Warning
+      );
+    }
+    const problem = describeInvalidParam(param);
+    if (problem) {
+      report(DiagnosticCode.InvalidParameter, `参数「${param.name}」${problem}`, param.span);
+    }
+    paramNames.add(upperName);
+  }
+
+  let hasOutput = false;
+
+  formula.statements.forEach((statement) => {
+    walk(statement.expr, {
+      Variable: (node) => {
+        const upperName = node.name.toUpperCase();
+        if (
+          defined.has(node.name) ||
+          builtins.has(upperName) ||
+          injected.has(upperName) ||
+          paramNames.has(upperName)
+        ) {
+          return;
+        }
+        if (firstDefinition.has(node.name)) {
+          report(DiagnosticCode.UseBeforeAssignment, `变量「${node.name}」在赋值之前被使用`, node.span);
+        } else {
+          report(DiagnosticCode.UndefinedVariable, `未定义的变量「${node.name}」`, node.span);
+        }
+      },
+      FunctionCall: (node) => {
+        const info =
+          getFunctionInfo(registry, node.name) ?? getFunctionInfo(globalFunctionRegistry, node.name);
+        if (!info) {
+          report(DiagnosticCode.UnknownFunction, `未知的函数「${node.name}」`, node.span);
+          return;
+        }
+        // 未提供元数据的函数不知道有哪些输出，不做检查
+        if (
+          node.component !== undefined &&
+          info.documented &&
+          !info.outputs?.includes(node.component.toUpperCase())
+        ) {
+          const available = info.outputs?.length ? `，可用的输出：${info.outputs.join('、')}` : '';
+          report(
+            DiagnosticCode.UnknownOutput,
+            `函数「${node.name}」没有名为「${node.component}」的输出${available}`,
+            node.span
+          );
+        }
+        if (info.future) {
+          report(
+            DiagnosticCode.FutureFunction,
+            `函数「${node.name}」是未来函数，结果会随之后的K线改变，回测结果存在偏差`,
+            node.span,
+            DiagnosticSeverity.Warning
+          );
+        }
+        if (node.args.length < info.minArgs || node.args.length > info.maxArgs) {
+          const expected =
+            info.minArgs === info.maxArgs ? `${info.minArgs}` : `${info.minArgs}到${info.maxArgs}`;
+          report(
+            DiagnosticCode.WrongArgumentCount,
+            `函数「${node.name}」需要${expected}个参数，但提供了${node.args.length}个`,
+            node.span
+          );
+        }
+      },
+    });
+
+    if (statement.type === 'Assignment') {
+      if (builtins.has(statement.variable.toUpperCase())) {
+        report(
+          DiagnosticCode.BuiltinReassignment,
+          `不能给内置变量「${statement.variable}」赋值`,
+          statement.span,
+          DiagnosticSeverity.Warning
+        );
+      }
+      defined.add(statement.variable);
+      return;
+    }
+
+    hasOutput = true;
+    const styleTypes = new Set<PlotStyleType>();
+    for (const style of statement.styles) {
+      if (style.type === 'Other' && !parsePlotStyle(style.name)) {
+        report(
+          DiagnosticCode.UnknownPlotStyle,
+          `无法识别的绘图样式「${style.name}」`,
+          statement.span,
+          DiagnosticSeverity.Warning
+        );
+      }
+      if (styleTypes.has(style.type) && style.type in CONFLICTING_STYLE_NAMES) {
+        const output = statement.name !== null ? `输出「${statement.name}」` : '输出';
+        report(
+          DiagnosticCode.ConflictingPlotStyles,
+          `${output}指定了多个${CONFLICTING_STYLE_NAMES[style.type]}`,
+          statement.span,
+          DiagnosticSeverity.Warning
+        );
+      }
+      styleTypes.add(style.type);
+    }
+    if (statement.name === null) {
+      return;
+    }
+    if (builtins.has(statement.name.toUpperCase())) {
+      report(
+        DiagnosticCode.BuiltinReassignment,
+        `输出名称「${statement.name}」与内置变量重名`,
+        statement.span,
+        DiagnosticSeverity.Warning
+      );
+    }
+    if (outputNames.has(statement.name)) {
+      report(
+        DiagnosticCode.DuplicateOutputName,
+        `输出名称「${statement.name}」重复`,
+        statement.span,
+        DiagnosticSeverity.Warning
+      );
+    }
+    outputNames.add(statement.name);
+    defined.add(statement.name);
+  });
+
+  if (!hasOutput) {
+    const last = formula.statements[formula.statements.length - 1];
+    report(DiagnosticCode.NoOutput, '必须要有一个输出值', last?.span);
+  }
+
+  return diagnostics;
+}
+
+// 检查参数的取值范围，合法时返回null
+function describeInvalidParam(param: FormulaParam): string | null {
+  const { defaultValue, min, max, step } = param;
+  if (min !== undefined && max !== undefined && min > max) {
+    return `的最小值${min}大于最大值${max}`;
+  }
+  if (min !== undefined && defaultValue < min) {
+    return `的默认值${defaultValue}小于最小值${min}`;
+  }
+  if (max !== undefined && defaultValue > max) {
+    return `的默认值${defaultValue}大于最大值${max}`;
+  }
+  if (step !== undefined && step <= 0) {
+    return `的步长必须大于0`;
+  }
+  return null;
+}
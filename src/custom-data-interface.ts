@@ -1,8 +1,8 @@
 // 自定义数据输入接口 - 支持用户传入自定义股票数据和指标
 import { InputData, InputDataBuilder } from './data';
 import { Formula } from './ast';
-import { Evaluator } from './evaluator';
-import { TimeFrame } from './eastmoney-adapter';
+import { Evaluator, EvaluatorOptions, VariableEnvironment } from './evaluator';
+import { TimeFrame } from './timeframe';
 
 export interface CustomStockData {
   symbol: string;
@@ -15,6 +15,7 @@ export interface CustomStockData {
     lows: number[];          // 最低价
     closes: number[];        // 收盘价
     volumes: number[];       // 成交量
+    amounts?: number[];      // 成交额（可选）
     [customKey: string]: any; // 自定义指标数据
   };
 }
@@ -150,25 +151,23 @@ export class CustomDataEvaluator{
             stockData.data.highs[i], 
             stockData.data.lows[i], 
             stockData.data.closes[i], 
-            stockData.data.volumes[i]
+            stockData.data.volumes[i],
+            stockData.data.amounts?.[i]
           );
         }
         const inputData = builder.build();
 
-        // 创建自定义环境变量
+        // 创建自定义环境变量（内置行情变量由Evaluator根据inputData提供）
         const customEnvironment = new Map<string, (number | null)[]>();
-        
-        // 添加内置变量
-        customEnvironment.set('O', stockData.data.opens);
-        customEnvironment.set('H', stockData.data.highs);
-        customEnvironment.set('L', stockData.data.lows);
-        customEnvironment.set('C', stockData.data.closes);
-        customEnvironment.set('V', stockData.data.volumes);
-
-        // 添加自定义指标数据
+
+        // 添加自定义指标数据，与K线数量不一致的字段跳过（与技术指标的处理相同）
         for (const [key, value] of Object.entries(stockData.data)) {
-          if (!['date', 'opens', 'highs', 'lows', 'closes', 'volumes'].includes(key)) {
-            if (Array.isArray(value) && value.every(item => typeof item === 'number')) {
+          if (!['date', 'opens', 'highs', 'lows', 'closes', 'volumes', 'amounts'].includes(key)) {
+            if (
+              Array.isArray(value) &&
+              value.length === inputData.numBars &&
+              value.every(item => typeof item === 'number')
+            ) {
               customEnvironment.set(key.toUpperCase(), value);
             }
           }
@@ -183,7 +182,11 @@ export class CustomDataEvaluator{
         }
 
         // 创建自定义求值器（需要扩展原有的Evaluator类）
-        const evaluator = this.createCustomEvaluator(inputData, customEnvironment);
+        const evaluator = this.createCustomEvaluator(inputData, customEnvironment, {
+          symbol: stockData.symbol,
+          timeframe: stockData.timeframe,
+          dates: stockData.data.date
+        });
         
         // 执行公式计算
         const formulaResult = evaluator.evaluateFormula(request.formula);
@@ -210,11 +213,13 @@ export class CustomDataEvaluator{
     };
   }
 
-  // 创建自定义求值器（简化版本，直接使用Evaluator）
-  private createCustomEvaluator(inputData: InputData, _customEnvironment: Map<string, (number | null)[]>): Evaluator {
-    // 直接使用Evaluator，因为修改其内部变量解析逻辑较为复杂
-    // 自定义变量应该通过其他方式处理，如预处理公式或将自定义数据合并到输入数据中
-    return new Evaluator(inputData);
+  // 创建自定义求值器，将自定义指标和技术指标作为变量注入
+  private createCustomEvaluator(
+    inputData: InputData,
+    customEnvironment: VariableEnvironment,
+    options: EvaluatorOptions
+  ): Evaluator {
+    return new Evaluator(inputData, undefined, customEnvironment, options);
   }
 
   // 清空所有数据
@@ -1,5 +1,5 @@
 // 数据结构定义，对应Rust的data.ts
-import { PlotStyle } from './ast';
+import { PlotStyle } from './plot-style';
 
 export interface InputData {
   opens: number[];     // 开盘价序列
@@ -7,6 +7,7 @@ export interface InputData {
   lows: number[];      // 最低价序列
   closes: number[];    // 收盘价序列
   volumes: number[];   // 成交量序列
+  amounts?: number[];  // 成交额序列（可选）
   numBars: number;     // 数据条数
 }
 
@@ -16,13 +17,24 @@ export class InputDataBuilder {
   private lows: number[] = [];
   private closes: number[] = [];
   private volumes: number[] = [];
+  private amounts: number[] = [];
 
-  addBar(open: number, high: number, low: number, close: number, volume: number): InputDataBuilder {
+  addBar(
+    open: number,
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    amount?: number
+  ): InputDataBuilder {
     this.opens.push(open);
     this.highs.push(high);
     this.lows.push(low);
     this.closes.push(close);
     this.volumes.push(volume);
+    if (amount !== undefined) {
+      this.amounts.push(amount);
+    }
     return this;
   }
 
@@ -36,12 +48,18 @@ export class InputDataBuilder {
       throw new Error('All data arrays must have the same length');
     }
 
+    // 成交额可以完全不提供，但不能只提供一部分
+    if (this.amounts.length !== 0 && this.amounts.length !== numBars) {
+      throw new Error('Amount must be provided for every bar or for none');
+    }
+
     return {
       opens: this.opens,
       highs: this.highs,
       lows: this.lows,
       closes: this.closes,
       volumes: this.volumes,
+      ...(this.amounts.length > 0 ? { amounts: this.amounts } : {}),
       numBars,
     };
   }
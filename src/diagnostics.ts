@@ -0,0 +1,82 @@
+// 诊断信息定义，供语法分析器、静态检查器和编辑器等工具使用
+import { SourcePosition, Token, TokenType, getTokenTypeDescription } from './token';
+
+export enum DiagnosticSeverity {
+  Error = 'Error',
+  Warning = 'Warning',
+  Info = 'Info',
+}
+
+export enum DiagnosticCode {
+  // 语法错误
+  UnexpectedToken = 'UnexpectedToken',   // 意外的Token
+  UnexpectedEof = 'UnexpectedEof',       // 意外的文件结束
+  IllegalToken = 'IllegalToken',         // 非法字符或未闭合的字符串
+
+  // 语义错误
+  UndefinedVariable = 'UndefinedVariable',       // 未定义的变量
+  UseBeforeAssignment = 'UseBeforeAssignment',   // 变量在赋值之前被使用
+  UnknownFunction = 'UnknownFunction',           // 未知函数
+  WrongArgumentCount = 'WrongArgumentCount',     // 函数参数个数错误
+  UnknownOutput = 'UnknownOutput',               // 多输出函数没有该输出
+  DuplicateOutputName = 'DuplicateOutputName',   // 输出名称重复
+  BuiltinReassignment = 'BuiltinReassignment',   // 给内置变量赋值
+  NoOutput = 'NoOutput',                         // 公式没有输出
+  FutureFunction = 'FutureFunction',             // 使用了未来函数
+  DuplicateParameter = 'DuplicateParameter',     // 参数重复声明
+  InvalidParameter = 'InvalidParameter',         // 参数的默认值、范围或步长不合法
+  UnknownPlotStyle = 'UnknownPlotStyle',         // 无法识别的绘图样式
+  ConflictingPlotStyles = 'ConflictingPlotStyles', // 同一输出指定了多个颜色、线型或线宽
+}
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;          // 可直接展示给用户的中文描述
+  start: SourcePosition;
+  end: SourcePosition;
+  expected: TokenType[];    // 期望的Token类型集合（仅语法错误时非空）
+}
+
+// 构造函数
+export function createDiagnostic(
+  code: DiagnosticCode,
+  message: string,
+  start: SourcePosition,
+  end: SourcePosition = start,
+  expected: TokenType[] = [],
+  severity: DiagnosticSeverity = DiagnosticSeverity.Error
+): Diagnostic {
+  return {
+    code,
+    severity,
+    message,
+    start,
+    end,
+    expected,
+  };
+}
+
+// 生成Token的中文描述，如：标识符「MA5」
+export function describeToken(token: Token): string {
+  const description = getTokenTypeDescription(token.tokenType);
+  switch (token.tokenType) {
+    case TokenType.Identifier:
+    case TokenType.Number:
+    case TokenType.String:
+    case TokenType.Illegal:
+      return `${description}「${token.lexeme}」`;
+    default:
+      return description;
+  }
+}
+
+// 生成期望Token集合的中文描述，如：右括号或逗号
+export function describeExpected(expected: TokenType[]): string {
+  return expected.map(getTokenTypeDescription).join('或');
+}
+
+// 格式化诊断信息，如：第3行第5列：期望右括号，但遇到换行符
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `第${diagnostic.start.line}行第${diagnostic.start.column}列：${diagnostic.message}`;
+}
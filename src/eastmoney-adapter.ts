@@ -2,6 +2,7 @@
 import { CustomStockData } from './custom-data-interface';
 import axios from 'axios';
 import pLimit from 'p-limit';
+import { TimeFrame } from './timeframe';
 
 // 东方财富API响应接口
 interface EastMoneyResponse {
@@ -27,17 +28,8 @@ interface EastMoneyResponse {
   }[];
 }
 
-// 时间周期枚举
-export enum TimeFrame {
-  MIN_1 = '1',      // 1分钟
-  MIN_5 = '5',      // 5分钟
-  MIN_15 = '15',    // 15分钟
-  MIN_30 = '30',    // 30分钟
-  MIN_60 = '60',    // 60分钟
-  DAILY = '101',     // 日线
-  WEEKLY = '102',    // 周线
-  MONTHLY = '103'     // 月线
-}
+// 时间周期定义在独立模块中，这里重新导出以保持原有的导入方式
+export { TimeFrame };
 
 // K线数据结构
 interface KLineData {
@@ -207,6 +199,7 @@ async fetchData(symbol: string, startDate: string, endDate: string, timeFrame?:
         lows: lows,
         closes: closes,
         volumes: volumes,
+        amounts: klineData.map(item => item.turnover),
         // 添加额外的技术指标数据字段
         turnover: klineData.map(item => item.turnover),
         amplitude: klineData.map(item => item.amplitude),
@@ -3,26 +3,131 @@ import {
   Expr, 
   Statement, 
   Formula, 
+  FormulaParam,
   UnaryOperator, 
   BinaryOperator,
-  PlotStyle 
+  SourceSpan
 } from './ast';
 import { InputData, OutputLineResult, FormulaResult, createOutputLineResult, createFormulaResult } from './data';
-import { FunctionRegistry, globalFunctionRegistry, DefaultFunctionRegistry } from './function-registry';
+import {
+  FunctionRegistry,
+  FunctionMetadata,
+  EvaluationContext,
+  Logger,
+  globalFunctionRegistry,
+  DefaultFunctionRegistry,
+  getFunctionInfo,
+  selectOutput
+} from './function-registry';
+import { TimeFrame } from './timeframe';
 import { integrateIndicatorsPackage } from './indicators-integration';
+import { ExprHandlers, matchExpr } from './visitor';
+import { BarTime, parseBarTime } from './bar-time';
 
 type Environment = Map<string, (number | null)[]>;
 
+// 外部注入的变量（如自定义指标、换手率等），变量名不区分大小写
+export type VariableEnvironment = Map<string, (number | null)[]> | Record<string, (number | null)[]>;
+
+// 求值器的可选配置，会通过EvaluationContext提供给函数
+export interface EvaluatorOptions {
+  symbol?: string;           // 股票代码
+  timeframe?: TimeFrame;     // 时间周期
+  dates?: string[];          // 每根K线的日期，长度需与K线数量一致
+  logger?: Logger;           // 函数输出日志使用的记录器，默认为console
+}
+
+// 内置行情变量（含通达信别名，不区分大小写）及其对应的InputData字段
+export const BUILTIN_VARIABLES: Record<
+  string,
+  'opens' | 'highs' | 'lows' | 'closes' | 'volumes' | 'amounts'
+> = {
+  O: 'opens',
+  OPEN: 'opens',
+  H: 'highs',
+  HIGH: 'highs',
+  L: 'lows',
+  LOW: 'lows',
+  C: 'closes',
+  CLOSE: 'closes',
+  V: 'volumes',
+  VOL: 'volumes',
+  VOLUME: 'volumes',
+  AMOUNT: 'amounts',
+  AMO: 'amounts',
+};
+
+// 由K线数量决定的内置变量（通达信中不带括号使用）
+export const BAR_COUNT_VARIABLES: Record<string, (numBars: number) => number[]> = {
+  // 到最后一根K线的周期数，最后一根为1
+  CURRBARSCOUNT: (numBars) => Array.from({ length: numBars }, (_, i) => numBars - i),
+  // K线总数
+  TOTALBARSCOUNT: (numBars) => new Array(numBars).fill(numBars),
+  // 是否为最后一根K线
+  ISLASTBAR: (numBars) => Array.from({ length: numBars }, (_, i) => (i === numBars - 1 ? 1 : 0)),
+  // 从第一根K线到当前的周期数，第一根为1
+  BARPOS: (numBars) => Array.from({ length: numBars }, (_, i) => i + 1),
+};
+
+// 由K线日期决定的内置变量，使用通达信的数值编码，需要提供K线日期
+export const BAR_TIME_VARIABLES: Record<string, (time: BarTime) => number> = {
+  // 1YYMMDD，如2024-01-02为1240102
+  DATE: (time) => (time.year - 1900) * 10000 + time.month * 100 + time.day,
+  // HHMMSS，如10:30为103000，日线为0
+  TIME: (time) => time.hour * 10000 + time.minute * 100 + time.second,
+  YEAR: (time) => time.year,
+  MONTH: (time) => time.month,
+  DAY: (time) => time.day,
+  HOUR: (time) => time.hour,
+  MINUTE: (time) => time.minute,
+  // 0为星期日
+  WEEKDAY: (time) => time.weekday,
+};
+
+// PERIOD变量的取值：通达信的周期编号，按时间周期取值，需要提供时间周期
+export const PERIOD_CODES: Record<`${TimeFrame}`, number> = {
+  '5': 0,
+  '15': 1,
+  '30': 2,
+  '60': 3,
+  '101': 4,
+  '102': 5,
+  '103': 6,
+  '1': 7,
+};
+
+// 求值错误，携带出错节点在公式中的位置
+export class EvaluationError extends Error {
+  readonly span?: SourceSpan;
+
+  constructor(message: string, span?: SourceSpan) {
+    super(span ? `${message} at position ${span.start.line}:${span.start.column}` : message);
+    this.name = 'EvaluationError';
+    this.span = span;
+  }
+}
+
 export class Evaluator {
   private inputData: InputData;
   private environment: Environment;
   private outputLines: OutputLineResult[];
   private functionRegistry: FunctionRegistry;
+  private injectedNames: Set<string>;
+  private paramNames: Set<string>;
+  private context: EvaluationContext;
+  private barTimes?: BarTime[];
 
-  constructor(inputData: InputData, functionRegistry?: FunctionRegistry) {
+  constructor(
+    inputData: InputData,
+    functionRegistry?: FunctionRegistry,
+    variables?: VariableEnvironment,
+    options: EvaluatorOptions = {}
+  ) {
     this.inputData = inputData;
     this.environment = new Map();
     this.outputLines = [];
+    this.injectedNames = new Set();
+    this.paramNames = new Set();
     
     // 创建组合注册器：外部注册器扩展全局注册器，而不是二选一
     if (functionRegistry) {
@@ -33,19 +138,13 @@ export class Evaluator {
       // 先将全局注册器的函数复制过来
       const globalFuncs = globalFunctionRegistry.getAllFunctionNames();
       for (const funcName of globalFuncs) {
-        const func = globalFunctionRegistry.getFunction(funcName);
-        if (func) {
-          combinedRegistry.registerFunction(funcName, func);
-        }
+        copyFunction(globalFunctionRegistry, combinedRegistry, funcName);
       }
       
       // 再添加外部注册器的函数（如果同名会覆盖）
       const externalFuncs = functionRegistry.getAllFunctionNames();
       for (const funcName of externalFuncs) {
-        const func = functionRegistry.getFunction(funcName);
-        if (func) {
-          combinedRegistry.registerFunction(funcName, func);
-        }
+        copyFunction(functionRegistry, combinedRegistry, funcName);
       }
       
       this.functionRegistry = combinedRegistry;
@@ -55,20 +154,64 @@ export class Evaluator {
     }
     
     this.initializeBuiltinVariables();
+    if (variables) {
+      this.injectVariables(variables);
+    }
+    this.context = this.createContext(options);
+  }
+
+  // 创建传给函数的求值上下文
+  private createContext(options: EvaluatorOptions): EvaluationContext {
+    const numBars = this.inputData.numBars;
+    return {
+      inputData: this.inputData,
+      numBars,
+      lastIndex: numBars - 1,
+      isLastBar: (index) => index === numBars - 1,
+      barsToEnd: (index) => numBars - index,
+      constant: (value) => this.expandNumber(value),
+      dates: options.dates,
+      symbol: options.symbol,
+      timeframe: options.timeframe,
+      params: {},
+      registry: this.functionRegistry,
+      logger: options.logger ?? console,
+    };
   }
 
   // 初始化内置变量
   private initializeBuiltinVariables(): void {
-    this.environment.set('O', this.inputData.opens);
-    this.environment.set('H', this.inputData.highs);
-    this.environment.set('L', this.inputData.lows);
-    this.environment.set('C', this.inputData.closes);
-    this.environment.set('V', this.inputData.volumes);
+    for (const [name, field] of Object.entries(BUILTIN_VARIABLES)) {
+      const series = this.inputData[field];
+      // 成交额等可选数据未提供时不注册对应变量
+      if (series) {
+        this.environment.set(name, series);
+      }
+    }
+    for (const [name, build] of Object.entries(BAR_COUNT_VARIABLES)) {
+      this.environment.set(name, build(this.inputData.numBars));
+    }
+  }
+
+  // 注入外部变量：统一转为大写，与内置变量同名时以注入的数据为准
+  private injectVariables(variables: VariableEnvironment): void {
+    const entries = variables instanceof Map ? variables.entries() : Object.entries(variables);
+    for (const [name, series] of entries) {
+      if (series.length !== this.inputData.numBars) {
+        throw new EvaluationError(
+          `Variable ${name} has ${series.length} values, expected ${this.inputData.numBars}`
+        );
+      }
+      const upperName = name.toUpperCase();
+      this.environment.set(upperName, series);
+      this.injectedNames.add(upperName);
+    }
   }
 
-  // 主求值入口
-  evaluateFormula(formula: Formula): FormulaResult {
+  // 主求值入口，params按参数名覆盖公式中PARAM声明的默认值
+  evaluateFormula(formula: Formula, params: Record<string, number> = {}): FormulaResult {
     this.outputLines = [];
+    this.bindParams(formula.params ?? [], params);
 
     for (const statement of formula.statements) {
       const result = this.executeStatement(statement);
@@ -82,6 +225,40 @@ export class Evaluator {
     return createFormulaResult(this.outputLines);
   }
 
+  // 绑定公式参数：参数名不区分大小写，覆盖值超出声明的范围或不符合步长时报错
+  private bindParams(declared: FormulaParam[], overrides: Record<string, number>): void {
+    const values = new Map(declared.map((param) => [param.name.toUpperCase(), param.defaultValue]));
+    for (const [name, value] of Object.entries(overrides)) {
+      const param = declared.find((p) => p.name.toUpperCase() === name.toUpperCase());
+      if (!param) {
+        throw new EvaluationError(`Unknown parameter: ${name}`);
+      }
+      if (!Number.isFinite(value)) {
+        throw new EvaluationError(`Parameter ${param.name} must be a finite number`);
+      }
+      if (param.min !== undefined && value < param.min) {
+        throw new EvaluationError(`Parameter ${param.name} must be at least ${param.min}`);
+      }
+      if (param.max !== undefined && value > param.max) {
+        throw new EvaluationError(`Parameter ${param.name} must be at most ${param.max}`);
+      }
+      // 步长从最小值（未声明时为默认值）开始计算，允许浮点误差
+      if (param.step !== undefined && param.step > 0) {
+        const steps = (value - (param.min ?? param.defaultValue)) / param.step;
+        if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+          throw new EvaluationError(`Parameter ${param.name} must change in steps of ${param.step}`);
+        }
+      }
+      values.set(param.name.toUpperCase(), value);
+    }
+    for (const param of declared) {
+      const upperName = param.name.toUpperCase();
+      this.environment.set(upperName, this.expandNumber(values.get(upperName)!));
+      this.paramNames.add(upperName);
+    }
+    this.context = { ...this.context, params: Object.fromEntries(values) };
+  }
+
   // 执行单个语句
   private executeStatement(statement: Statement): OutputLineResult | null {
     switch (statement.type) {
@@ -106,43 +283,92 @@ export class Evaluator {
     const data = this.evaluateExpr(statement.expr);
     const name = statement.name || `output_${this.outputLines.length + 1}`;
     
+    // 命名输出线也可以被后续语句引用（如KDJ中的 J:3*K-2*D）
+    if (statement.name) {
+      this.environment.set(statement.name, data);
+    }
+    
     return createOutputLineResult(name, data, statement.styles);
   }
 
   // 表达式求值（核心递归函数）
   private evaluateExpr(expr: Expr): (number | null)[] {
-    switch (expr.type) {
-      case 'Literal':
-        return this.expandNumber(expr.numericValue);
-      case 'Variable':
-        return this.resolveVariable(expr.name);
-      case 'UnaryOp':
-        return this.evaluateUnaryOp(expr.operator, expr.operand);
-      case 'BinaryOp':
-        return this.evaluateBinaryOp(expr.left, expr.operator, expr.right);
-      case 'FunctionCall':
-        return this.evaluateFunctionCall(expr.name, expr.args);
-      case 'Grouped':
-        return this.evaluateExpr(expr.expr);
-      default:
-        throw new Error(`Unknown expression type: ${(expr as any).type}`);
-    }
+    return matchExpr(expr, this.exprHandlers);
   }
 
+  // 各类表达式的求值方法
+  private readonly exprHandlers: ExprHandlers<(number | null)[]> = {
+    Literal: (expr) => this.expandNumber(expr.numericValue),
+    Variable: (expr) => this.resolveVariable(expr.name, expr.span),
+    UnaryOp: (expr) => this.evaluateUnaryOp(expr.operator, expr.operand),
+    BinaryOp: (expr) => this.evaluateBinaryOp(expr.left, expr.operator, expr.right, expr.span),
+    FunctionCall: (expr) => this.evaluateFunctionCall(expr.name, expr.args, expr.span, expr.component),
+    Grouped: (expr) => this.evaluateExpr(expr.expr),
+  };
+
   // 扩展数字为等长序列
   private expandNumber(value: number): number[] {
     return new Array(this.inputData.numBars).fill(value);
   }
 
   // 解析变量
-  private resolveVariable(name: string): (number | null)[] {
-    const value = this.environment.get(name);
+  private resolveVariable(name: string, span?: SourceSpan): (number | null)[] {
+    // 内置变量、注入变量和公式参数不区分大小写（如 close、Vol、turnoverRate）
+    const upperName = name.toUpperCase();
+    const caseInsensitive =
+      upperName in BUILTIN_VARIABLES ||
+      upperName in BAR_COUNT_VARIABLES ||
+      this.injectedNames.has(upperName) ||
+      this.paramNames.has(upperName);
+    const value =
+      this.environment.get(name) ??
+      (caseInsensitive ? this.environment.get(upperName) : undefined) ??
+      this.resolveTimeVariable(upperName, span);
     if (!value) {
-      throw new Error(`Undefined variable: ${name}`);
+      throw new EvaluationError(`Undefined variable: ${name}`, span);
     }
     return value;
   }
 
+  // 日期、时间和周期变量在第一次使用时计算，缺少日期或时间周期时报错
+  private resolveTimeVariable(name: string, span?: SourceSpan): number[] | undefined {
+    let series: number[];
+    if (name === 'PERIOD') {
+      if (!this.context.timeframe) {
+        throw new EvaluationError('Variable PERIOD requires a timeframe', span);
+      }
+      series = this.expandNumber(PERIOD_CODES[this.context.timeframe]);
+    } else if (name in BAR_TIME_VARIABLES) {
+      series = this.getBarTimes(name, span).map(BAR_TIME_VARIABLES[name]);
+    } else {
+      return undefined;
+    }
+    this.environment.set(name, series);
+    return series;
+  }
+
+  private getBarTimes(name: string, span?: SourceSpan): BarTime[] {
+    if (this.barTimes) {
+      return this.barTimes;
+    }
+    const dates = this.context.dates;
+    if (!dates) {
+      throw new EvaluationError(`Variable ${name} requires bar dates`, span);
+    }
+    // 日期数量在使用时间变量时才检查，不使用日期的公式不受影响
+    if (dates.length !== this.inputData.numBars) {
+      throw new EvaluationError(`Dates have ${dates.length} values, expected ${this.inputData.numBars}`, span);
+    }
+    this.barTimes = dates.map((text) => {
+      const time = parseBarTime(text);
+      if (!time) {
+        throw new EvaluationError(`Invalid bar date: ${text}`, span);
+      }
+      return time;
+    });
+    return this.barTimes;
+  }
+
   // 一元运算符求值
   private evaluateUnaryOp(operator: UnaryOperator, operand: Expr): (number | null)[] {
     const operandValue = this.evaluateExpr(operand);
@@ -162,12 +388,17 @@ export class Evaluator {
   }
 
   // 二元运算符求值
-  private evaluateBinaryOp(left: Expr, operator: BinaryOperator, right: Expr): (number | null)[] {
+  private evaluateBinaryOp(
+    left: Expr,
+    operator: BinaryOperator,
+    right: Expr,
+    span?: SourceSpan
+  ): (number | null)[] {
     const leftValue = this.evaluateExpr(left);
     const rightValue = this.evaluateExpr(right);
     
     if (leftValue.length !== rightValue.length) {
-      throw new Error('Binary operation requires arrays of same length');
+      throw new EvaluationError('Binary operation requires arrays of same length', span);
     }
     
     return leftValue.map((leftVal, i) => {
@@ -207,24 +438,55 @@ export class Evaluator {
   }
 
   // 函数调用求值
-  private evaluateFunctionCall(name: string, args: Expr[]): (number | null)[] {
+  private evaluateFunctionCall(
+    name: string,
+    args: Expr[],
+    span?: SourceSpan,
+    component?: string
+  ): (number | null)[] {
     const argValues = args.map(arg => this.evaluateExpr(arg));
     
     // 检查所有参数长度一致
     const length = argValues[0]?.length || 0;
     for (const argValue of argValues) {
       if (argValue.length !== length) {
-        throw new Error(`Function ${name} requires arguments of same length`);
+        throw new EvaluationError(`Function ${name} requires arguments of same length`, span);
       }
     }
     
-    // 从注册器中获取函数
+    // 从注册器中获取函数，指定输出名称时使用多输出函数
     const func = this.functionRegistry.getFunction(name);
     if (!func) {
-      throw new Error(`Unknown function: ${name}`);
+      throw new EvaluationError(`Unknown function: ${name}`, span);
+    }
+    const multiOutputFunc = component === undefined ? undefined : this.functionRegistry.getMultiOutputFunction?.(name);
+    if (component !== undefined && !multiOutputFunc) {
+      throw new EvaluationError(`Function ${name} has no output ${component}`, span);
+    }
+    
+    // 省略的末尾参数使用元数据中的默认值
+    const info = getFunctionInfo(this.functionRegistry, name);
+    const params = info?.params ?? [];
+    for (let i = argValues.length; i < params.length; i++) {
+      const defaultValue = params[i].defaultValue;
+      if (defaultValue === undefined) {
+        break;
+      }
+      argValues.push(this.expandNumber(defaultValue));
     }
     
-    return func(argValues);
+    try {
+      if (multiOutputFunc) {
+        return selectOutput(name, multiOutputFunc(argValues, this.context), component, info?.outputs);
+      }
+      return func(argValues, this.context);
+    } catch (error) {
+      // 函数实现内部抛出的错误（如参数非法）定位到函数调用处
+      if (error instanceof EvaluationError) {
+        throw error;
+      }
+      throw new EvaluationError(error instanceof Error ? error.message : String(error), span);
+    }
   }
 
   // 获取数值参数（用于周期参数）
@@ -236,7 +498,32 @@ export class Evaluator {
   }
 }
 
+// 获取注册器中函数的元数据（未提供元数据的函数返回undefined）
+function getMetadata(registry: FunctionRegistry, name: string): FunctionMetadata | undefined {
+  const info = getFunctionInfo(registry, name);
+  return info?.documented ? info : undefined;
+}
+
+// 将函数连同元数据复制到另一个注册器，多输出函数保留全部输出
+function copyFunction(source: FunctionRegistry, target: DefaultFunctionRegistry, name: string): void {
+  const metadata = getMetadata(source, name);
+  const multiOutputFunc = source.getMultiOutputFunction?.(name);
+  if (multiOutputFunc) {
+    target.registerMultiOutputFunction(name, multiOutputFunc, { ...metadata, outputs: metadata?.outputs ?? [] });
+    return;
+  }
+  const func = source.getFunction(name);
+  if (func) {
+    target.registerFunction(name, func, metadata);
+  }
+}
+
 // 创建求值器实例
-export function createEvaluator(inputData: InputData, functionRegistry?: FunctionRegistry): Evaluator {  
-  return new Evaluator(inputData, functionRegistry);
+export function createEvaluator(
+  inputData: InputData,
+  functionRegistry?: FunctionRegistry,
+  variables?: VariableEnvironment,
+  options?: EvaluatorOptions
+): Evaluator {
+  return new Evaluator(inputData, functionRegistry, variables, options);
 }
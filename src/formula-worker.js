@@ -15,7 +15,7 @@ async function loadModules() {
 }
 
 // 处理单个股票数据
-async function processFormula(formulaText, data, options) {
+async function processFormula(formulaText, data, options, runOptions) {
   const startTime = Date.now();
 
   const { createRunner } = await loadModules();
@@ -24,7 +24,10 @@ async function processFormula(formulaText, data, options) {
 
     const runner = createRunner();
     // 执行计算
-    const result = await runner.runFormula(formulaText, data);
+    const result = await runner.runFormula(formulaText, data, runOptions);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
 
     const executionTime = Date.now() - startTime;
 
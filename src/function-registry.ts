@@ -1,23 +1,122 @@
+import { InputData } from './data';
+import { TimeFrame } from './timeframe';
 
-export type FunctionType = (args: (number | null)[][]) => (number | null)[];
+// 多输出函数的返回值：输出名称（大写）到序列的映射，如MACD的DIF、DEA、HIST
+export type MultiSeriesResult = Record<string, (number | null)[]>;
+
+// 日志输出接口，默认为console
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+// 函数求值上下文，由求值器在调用函数时传入，供需要读取行情数据或K线位置的函数使用
+export interface EvaluationContext {
+  inputData: InputData;          // 当前求值的行情数据
+  numBars: number;               // K线数量
+  lastIndex: number;             // 最后一根K线的下标
+  isLastBar(index: number): boolean;
+  barsToEnd(index: number): number;  // 到最后一根K线的周期数，最后一根为1
+  constant(value: number): number[]; // 与K线等长的常数序列
+  dates?: string[];              // 每根K线的日期
+  symbol?: string;               // 股票代码
+  timeframe?: TimeFrame;         // 时间周期
+  params: Record<string, number>; // 公式参数（PARAM声明）绑定后的取值，参数名为大写
+  registry: FunctionRegistry;    // 当前求值使用的函数注册器
+  logger: Logger;
+}
+
+// context为可选参数，只使用参数序列的函数可以忽略
+export type FunctionType = (
+  args: (number | null)[][],
+  context?: EvaluationContext
+) => (number | null)[];
+
+// 多输出函数，通过 registerMultiOutputFunction 注册，只有 函数名.输出名 调用时使用全部输出
+export type MultiOutputFunctionType = (
+  args: (number | null)[][],
+  context?: EvaluationContext
+) => MultiSeriesResult;
+
+// 函数分类
+export enum FunctionCategory {
+  Reference = 'Reference',     // 引用函数（REF、HHV、LLV等）
+  Logic = 'Logic',             // 逻辑函数（IF、CROSS等）
+  Math = 'Math',               // 数学函数
+  Statistics = 'Statistics',   // 统计函数
+  Indicator = 'Indicator',     // 技术指标
+  Pattern = 'Pattern',         // 形态函数（ZIG、PEAK等）
+  Other = 'Other',
+}
+
+// 参数种类
+export enum ParameterKind {
+  Series = 'Series',       // 序列，每根K线可以取不同的值
+  Constant = 'Constant',   // 常量，只使用第一根K线的值（如周期参数）
+}
+
+export interface FunctionParameter {
+  name: string;
+  kind: ParameterKind;
+  defaultValue?: number;   // 省略该参数时使用的默认值（只能用于末尾的参数）
+  description?: string;
+}
+
+// 函数元数据，注册函数时可选提供
+export interface FunctionMetadata {
+  params?: FunctionParameter[];
+  minArgs?: number;        // 默认为末尾无默认值参数之前的参数个数
+  maxArgs?: number;        // 默认为参数个数
+  returns?: string;        // 返回值说明
+  category?: FunctionCategory;
+  description?: string;    // 中文说明
+  descriptionEn?: string;  // 英文说明
+  future?: boolean;        // 是否为未来函数（结果会随之后的K线改变，回测存在偏差）
+  outputs?: string[];      // 多输出函数的输出名称，第一个为默认输出
+}
+
+// 查询得到的函数信息（已补全默认值）
+export interface FunctionInfo extends FunctionMetadata {
+  name: string;
+  params: FunctionParameter[];
+  minArgs: number;
+  maxArgs: number;
+  category: FunctionCategory;
+  future: boolean;
+  documented: boolean;     // 注册时是否提供了元数据
+}
 
 export interface FunctionRegistry {
-  registerFunction(name: string, func: FunctionType): void;
+  registerFunction(name: string, func: FunctionType, metadata?: FunctionMetadata): void;
   unregisterFunction(name: string): boolean;
   getFunction(name: string): FunctionType | undefined;
+  // 多输出函数为可选成员，未实现的注册器不支持 函数名.输出名 调用
+  registerMultiOutputFunction?(
+    name: string,
+    func: MultiOutputFunctionType,
+    metadata: FunctionMetadata & { outputs: string[] }
+  ): void;
+  getMultiOutputFunction?(name: string): MultiOutputFunctionType | undefined;
+  // 元数据查询为可选成员，未实现的注册器通过 getFunctionInfo(registry, name) 查询
+  getFunctionInfo?(name: string): FunctionInfo | undefined;
+  listFunctions?(category?: FunctionCategory): FunctionInfo[];
   getAllFunctionNames(): string[];
   hasFunction(name: string): boolean;
 }
 
 export class DefaultFunctionRegistry implements FunctionRegistry {
   private functions: Map<string, FunctionType> = new Map();
+  private metadata: Map<string, FunctionMetadata> = new Map();
+  private multiOutputFunctions: Map<string, MultiOutputFunctionType> = new Map();
   
   constructor() {
     this.initializeBuiltinFunctions();
   }
 
   // 注册函数
-  registerFunction(name: string, func: FunctionType): void {
+  registerFunction(name: string, func: FunctionType, metadata?: FunctionMetadata): void {
     if (!name || typeof name !== 'string') {
       throw new Error('Function name must be a non-empty string');
     }
@@ -28,11 +127,34 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
     
     const upperName = name.toUpperCase();
     this.functions.set(upperName, func);
+    this.multiOutputFunctions.delete(upperName);
+    if (metadata) {
+      this.metadata.set(upperName, metadata);
+    } else {
+      this.metadata.delete(upperName);
+    }
+  }
+
+  // 注册多输出函数，直接调用时返回默认输出（outputs中的第一个）
+  registerMultiOutputFunction(
+    name: string,
+    func: MultiOutputFunctionType,
+    metadata: FunctionMetadata & { outputs: string[] }
+  ): void {
+    const upperName = name.toUpperCase();
+    this.registerFunction(
+      upperName,
+      (args, context) => selectOutput(upperName, func(args, context), undefined, metadata.outputs),
+      metadata
+    );
+    this.multiOutputFunctions.set(upperName, func);
   }
 
   // 注销函数
   unregisterFunction(name: string): boolean {
     const upperName = name.toUpperCase();
+    this.metadata.delete(upperName);
+    this.multiOutputFunctions.delete(upperName);
     return this.functions.delete(upperName);
   }
 
@@ -42,6 +164,42 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
     return this.functions.get(upperName);
   }
 
+  // 获取多输出函数，单输出函数返回undefined
+  getMultiOutputFunction(name: string): MultiOutputFunctionType | undefined {
+    const upperName = name.toUpperCase();
+    return this.multiOutputFunctions.get(upperName);
+  }
+
+  // 获取函数信息（参数、分类、说明等），未提供元数据的函数不限制参数个数
+  getFunctionInfo(name: string): FunctionInfo | undefined {
+    const upperName = name.toUpperCase();
+    if (!this.functions.has(upperName)) {
+      return undefined;
+    }
+    
+    const metadata = this.metadata.get(upperName);
+    const params = metadata?.params ?? [];
+    const requiredCount = params.findIndex((param) => param.defaultValue !== undefined);
+    
+    return {
+      ...metadata,
+      name: upperName,
+      params,
+      minArgs: metadata?.minArgs ?? (metadata ? (requiredCount === -1 ? params.length : requiredCount) : 0),
+      maxArgs: metadata?.maxArgs ?? (metadata ? params.length : Infinity),
+      category: metadata?.category ?? FunctionCategory.Other,
+      future: metadata?.future ?? false,
+      documented: metadata !== undefined,
+    };
+  }
+
+  // 列出函数信息，可按分类过滤
+  listFunctions(category?: FunctionCategory): FunctionInfo[] {
+    return this.getAllFunctionNames()
+      .map((name) => this.getFunctionInfo(name)!)
+      .filter((info) => category === undefined || info.category === category);
+  }
+
   // 获取所有函数名
   getAllFunctionNames(): string[] {
     return Array.from(this.functions.keys());
@@ -58,47 +216,101 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
     // 移动平均函数
     this.registerFunction('MA', (args) => {
       const [data, periodArg] = args;
-      const period = this.getNumberArg(periodArg);
-      
-      const result: (number | null)[] = [];
       
-      for (let i = 0; i < data.length; i++) {
-        if (i < period - 1) {
-          result.push(null);
-          continue;
-        }
-        
+      return this.rolling(data.length, periodArg, false, (start, end) => {
         let sum = 0;
         let count = 0;
         
-        for (let j = i - period + 1; j <= i; j++) {
+        for (let j = start; j <= end; j++) {
           if (data[j] !== null) {
             sum += data[j]!;
             count++;
           }
         }
         
-        result.push(count > 0 ? sum / count : null);
+        return count > 0 ? sum / count : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化' },
+      ],
+      returns: 'X的N周期简单移动平均',
+      category: FunctionCategory.Statistics,
+      description: '简单移动平均',
+      descriptionEn: 'Simple moving average of X over N bars',
+    });
+
+    // 通达信扩展移动平均：Y=(M*X+(N-M)*Y')/N，从第一个有效值开始
+    this.registerFunction('SMA', (args) => {
+      const [data, periodArg, weightArg] = args;
+      const period = this.getNumberArg(periodArg);
+      const weight = this.getNumberArg(weightArg);
+      
+      if (period <= 0 || weight <= 0 || weight > period) {
+        throw new Error('SMA requires N > 0 and 0 < M <= N');
       }
       
-      return result;
+      return this.smooth(data, () => weight / period);
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+        { name: 'M', kind: ParameterKind.Constant, defaultValue: 1, description: '权重' },
+      ],
+      returns: 'X的N周期扩展移动平均，M为权重',
+      category: FunctionCategory.Statistics,
+      description: '扩展移动平均',
+      descriptionEn: 'TDX weighted recursive moving average: Y=(M*X+(N-M)*Y\')/N',
     });
 
-    // 向前引用函数
-    this.registerFunction('REF', (args) => {
-      const [data, offsetArg] = args;
-      const offset = this.getNumberArg(offsetArg);
+    // 指数移动平均：Y=(2*X+(N-1)*Y')/(N+1)，没有预热期
+    const ema: FunctionType = (args) => {
+      const [data, periodArg] = args;
+      const period = this.getNumberArg(periodArg);
       
-      if (offset < 0) throw new Error('REF offset must be non-negative');
+      if (period <= 0) throw new Error('EMA period must be positive');
       
-      return data.map((value, i) => {
-        const refIndex = i - offset;
-        return refIndex >= 0 ? data[refIndex] : null;
+      return this.smooth(data, () => 2 / (period + 1));
+    };
+    const emaMetadata: FunctionMetadata = {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期指数移动平均',
+      category: FunctionCategory.Statistics,
+      description: '指数移动平均',
+      descriptionEn: 'Exponential moving average starting from the first bar',
+    };
+    this.registerFunction('EMA', ema, emaMetadata);
+    this.registerFunction('EXPMA', ema, emaMetadata);
+
+    // 动态移动平均：Y=A*X+(1-A)*Y'，A可以是序列
+    this.registerFunction('DMA', (args) => {
+      const [data, alphaArg] = args;
+      
+      return this.smooth(data, (i) => {
+        const alpha = alphaArg.length === 1 ? alphaArg[0] : alphaArg[i];
+        if (alpha === null || alpha === undefined) {
+          return null;
+        }
+        // 通达信会把超出(0,1]的平滑因子按1处理
+        return alpha > 0 && alpha <= 1 ? alpha : 1;
       });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'A', kind: ParameterKind.Series, description: '平滑因子，0<A<1' },
+      ],
+      returns: 'X以A为平滑因子的动态移动平均',
+      category: FunctionCategory.Statistics,
+      description: '动态移动平均',
+      descriptionEn: 'Dynamic moving average with smoothing factor A',
     });
 
-    // 周期求和函数
-    this.registerFunction('SUM', (args) => {
+    // 加权移动平均：Y=(1*X1+2*X2+...+N*Xn)/(1+2+...+N)
+    this.registerFunction('WMA', (args) => {
       const [data, periodArg] = args;
       const period = this.getNumberArg(periodArg);
       
@@ -111,77 +323,239 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
         }
         
         let sum = 0;
-        let hasValidData = false;
+        let weights = 0;
         
-        for (let j = i - period + 1; j <= i; j++) {
+        for (let j = i - period + 1, weight = 1; j <= i; j++, weight++) {
           if (data[j] !== null) {
-            sum += data[j]!;
-            hasValidData = true;
+            sum += data[j]! * weight;
+            weights += weight;
           }
         }
         
-        result.push(hasValidData ? sum : null);
+        result.push(weights > 0 ? sum / weights : null);
       }
       
       return result;
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期加权移动平均',
+      category: FunctionCategory.Statistics,
+      description: '加权移动平均',
+      descriptionEn: 'Linearly weighted moving average of X over N bars',
     });
 
-    // 最高值函数
-    this.registerFunction('HHV', (args) => {
-      const [data, periodArg] = args;
-      const period = this.getNumberArg(periodArg);
+    // 向前引用函数
+    this.registerFunction('REF', (args) => {
+      const [data, offsetArg] = args;
+      const constantOffset = this.getConstantArg(offsetArg);
       
-      const result: (number | null)[] = [];
+      // 常数偏移快速路径
+      if (constantOffset !== null) {
+        if (constantOffset < 0) throw new Error('REF offset must be non-negative');
+        
+        // 小数偏移与逐K线路径一致，向下取整
+        const offset = Math.floor(constantOffset);
+        return data.map((_, i) => {
+          const refIndex = i - offset;
+          return refIndex >= 0 ? data[refIndex] : null;
+        });
+      }
       
-      for (let i = 0; i < data.length; i++) {
-        if (i < period - 1) {
-          result.push(null);
-          continue;
+      // 逐K线偏移，如 REF(C, BARSLAST(X)+1)
+      return data.map((_, i) => {
+        const offset = offsetArg[i];
+        if (offset === null) {
+          return null;
         }
+        if (offset < 0) throw new Error('REF offset must be non-negative');
         
-        let maxVal: number | null = null;
+        const refIndex = i - Math.floor(offset);
+        return refIndex >= 0 ? data[refIndex] : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '向前引用的周期数，可以逐K线变化' },
+      ],
+      returns: 'N周期前的X值',
+      category: FunctionCategory.Reference,
+      description: '向前引用',
+      descriptionEn: 'Value of X N bars ago',
+    });
+
+    // 周期求和函数
+    this.registerFunction('SUM', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, true, (start, end) => {
+        let sum = 0;
+        let hasValidData = false;
         
-        for (let j = i - period + 1; j <= i; j++) {
+        for (let j = start; j <= end; j++) {
           if (data[j] !== null) {
-            if (maxVal === null || data[j]! > maxVal) {
-              maxVal = data[j]!;
-            }
+            sum += data[j]!;
+            hasValidData = true;
           }
         }
         
-        result.push(maxVal);
-      }
-      
-      return result;
+        return hasValidData ? sum : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化，0表示从第一根K线开始' },
+      ],
+      returns: 'X的N周期累加和',
+      category: FunctionCategory.Statistics,
+      description: '周期求和',
+      descriptionEn: 'Sum of X over N bars',
+    });
+
+    // 最高值函数
+    this.registerFunction('HHV', (args) => {
+      const [data, periodArg] = args;
+      return this.extremeIndices(data, periodArg, (a, b) => a >= b).map((index) =>
+        index === null ? null : data[index]
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化，0表示从第一根K线开始' },
+      ],
+      returns: 'X的N周期最高值',
+      category: FunctionCategory.Reference,
+      description: '周期最高值',
+      descriptionEn: 'Highest value of X over N bars',
     });
 
     // 最低值函数
     this.registerFunction('LLV', (args) => {
       const [data, periodArg] = args;
-      const period = this.getNumberArg(periodArg);
-      
-      const result: (number | null)[] = [];
-      
-      for (let i = 0; i < data.length; i++) {
-        if (i < period - 1) {
-          result.push(null);
-          continue;
-        }
-        
-        let minVal: number | null = null;
-        
-        for (let j = i - period + 1; j <= i; j++) {
-          if (data[j] !== null) {
-            if (minVal === null || data[j]! < minVal) {
-              minVal = data[j]!;
-            }
-          }
-        }
-        
-        result.push(minVal);
-      }
-      
-      return result;
+      return this.extremeIndices(data, periodArg, (a, b) => a <= b).map((index) =>
+        index === null ? null : data[index]
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化，0表示从第一根K线开始' },
+      ],
+      returns: 'X的N周期最低值',
+      category: FunctionCategory.Reference,
+      description: '周期最低值',
+      descriptionEn: 'Lowest value of X over N bars',
+    });
+
+    // N周期内最高值到当前的周期数，最高值出现多次时取最近一次
+    this.registerFunction('HHVBARS', (args) => {
+      const [data, periodArg] = args;
+      return this.extremeIndices(data, periodArg, (a, b) => a >= b).map((index, i) =>
+        index === null ? null : i - index
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化，0表示从第一根K线开始' },
+      ],
+      returns: 'X的N周期最高值到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '周期最高值到当前的周期数',
+      descriptionEn: 'Bars since the highest value of X within N bars',
+    });
+
+    // N周期内最低值到当前的周期数，最低值出现多次时取最近一次
+    this.registerFunction('LLVBARS', (args) => {
+      const [data, periodArg] = args;
+      return this.extremeIndices(data, periodArg, (a, b) => a <= b).map((index, i) =>
+        index === null ? null : i - index
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化，0表示从第一根K线开始' },
+      ],
+      returns: 'X的N周期最低值到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '周期最低值到当前的周期数',
+      descriptionEn: 'Bars since the lowest value of X within N bars',
+    });
+
+    // 前N周期起的M周期内第T个最高值
+    this.registerFunction('FINDHIGH', (args) => {
+      const [data, offsetArg, periodArg, rankArg] = args;
+      return this.findRanked(data, offsetArg, periodArg, rankArg, (a, b) => b - a).map((index) =>
+        index === null ? null : data[index]
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '从前N周期开始' },
+        { name: 'M', kind: ParameterKind.Constant, description: '向前查找的周期数' },
+        { name: 'T', kind: ParameterKind.Constant, description: '第T个' },
+      ],
+      returns: '前N周期起M周期内X的第T个最高值',
+      category: FunctionCategory.Reference,
+      description: '寻找指定区间内的特定最高值',
+      descriptionEn: 'T-th highest value of X within M bars starting N bars ago',
+    });
+
+    // 前N周期起的M周期内第T个最高值到当前的周期数
+    this.registerFunction('FINDHIGHBARS', (args) => {
+      const [data, offsetArg, periodArg, rankArg] = args;
+      return this.findRanked(data, offsetArg, periodArg, rankArg, (a, b) => b - a).map((index, i) =>
+        index === null ? null : i - index
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '从前N周期开始' },
+        { name: 'M', kind: ParameterKind.Constant, description: '向前查找的周期数' },
+        { name: 'T', kind: ParameterKind.Constant, description: '第T个' },
+      ],
+      returns: '前N周期起M周期内X的第T个最高值到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '寻找指定区间内的特定最高值到当前的周期数',
+      descriptionEn: 'Bars since the T-th highest value of X within M bars starting N bars ago',
+    });
+
+    // 前N周期起的M周期内第T个最低值
+    this.registerFunction('FINDLOW', (args) => {
+      const [data, offsetArg, periodArg, rankArg] = args;
+      return this.findRanked(data, offsetArg, periodArg, rankArg, (a, b) => a - b).map((index) =>
+        index === null ? null : data[index]
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '从前N周期开始' },
+        { name: 'M', kind: ParameterKind.Constant, description: '向前查找的周期数' },
+        { name: 'T', kind: ParameterKind.Constant, description: '第T个' },
+      ],
+      returns: '前N周期起M周期内X的第T个最低值',
+      category: FunctionCategory.Reference,
+      description: '寻找指定区间内的特定最低值',
+      descriptionEn: 'T-th lowest value of X within M bars starting N bars ago',
+    });
+
+    // 前N周期起的M周期内第T个最低值到当前的周期数
+    this.registerFunction('FINDLOWBARS', (args) => {
+      const [data, offsetArg, periodArg, rankArg] = args;
+      return this.findRanked(data, offsetArg, periodArg, rankArg, (a, b) => a - b).map((index, i) =>
+        index === null ? null : i - index
+      );
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '从前N周期开始' },
+        { name: 'M', kind: ParameterKind.Constant, description: '向前查找的周期数' },
+        { name: 'T', kind: ParameterKind.Constant, description: '第T个' },
+      ],
+      returns: '前N周期起M周期内X的第T个最低值到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '寻找指定区间内的特定最低值到当前的周期数',
+      descriptionEn: 'Bars since the T-th lowest value of X within M bars starting N bars ago',
     });
 
     // 条件判断函数
@@ -194,6 +568,16 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
         }
         return cond !== 0 ? trueValue[i]! : falseValue[i]!;
       });
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'A', kind: ParameterKind.Series, description: '条件成立时的值' },
+        { name: 'B', kind: ParameterKind.Series, description: '条件不成立时的值' },
+      ],
+      returns: 'COND成立时为A，否则为B',
+      category: FunctionCategory.Logic,
+      description: '条件判断',
+      descriptionEn: 'Returns A when COND is true, otherwise B',
     });
 
     // 交叉判断函数
@@ -214,12 +598,29 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
       }
       
       return result;
+    }, {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '序列A' },
+        { name: 'B', kind: ParameterKind.Series, description: '序列B' },
+      ],
+      returns: 'A上穿B时为1，否则为0',
+      category: FunctionCategory.Logic,
+      description: '交叉判断',
+      descriptionEn: '1 when A crosses above B, otherwise 0',
     });
 
     // 绝对值函数
     this.registerFunction('ABS', (args) => {
       const [data] = args;
       return data.map(value => value === null ? null : Math.abs(value));
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的绝对值',
+      category: FunctionCategory.Math,
+      description: '绝对值',
+      descriptionEn: 'Absolute value of X',
     });
 
     // 最大值函数
@@ -230,6 +631,15 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
         if (valA === null || valB === null) return null;
         return Math.max(valA, valB);
       });
+    }, {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '序列A' },
+        { name: 'B', kind: ParameterKind.Series, description: '序列B' },
+      ],
+      returns: 'A和B中的较大值',
+      category: FunctionCategory.Math,
+      description: '最大值',
+      descriptionEn: 'Larger of A and B',
     });
 
     // 最小值函数
@@ -240,132 +650,1225 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
         if (valA === null || valB === null) return null;
         return Math.min(valA, valB);
       });
+    }, {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '序列A' },
+        { name: 'B', kind: ParameterKind.Series, description: '序列B' },
+      ],
+      returns: 'A和B中的较小值',
+      category: FunctionCategory.Math,
+      description: '最小值',
+      descriptionEn: 'Smaller of A and B',
+    });
+
+    // 开平方
+    this.registerFunction('SQRT', (args) => this.elementwise(args, (x) => Math.sqrt(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的平方根，X为负数时为空值',
+      category: FunctionCategory.Math,
+      description: '平方根',
+      descriptionEn: 'Square root of X',
+    });
+
+    // 乘幂
+    this.registerFunction('POW', (args) => this.elementwise(args, (a, b) => Math.pow(a, b)), {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '底数' },
+        { name: 'B', kind: ParameterKind.Series, description: '指数' },
+      ],
+      returns: 'A的B次幂',
+      category: FunctionCategory.Math,
+      description: '乘幂',
+      descriptionEn: 'A raised to the power B',
+    });
+
+    // 指数
+    this.registerFunction('EXP', (args) => this.elementwise(args, (x) => Math.exp(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'e的X次幂',
+      category: FunctionCategory.Math,
+      description: '指数',
+      descriptionEn: 'e raised to the power X',
+    });
+
+    // 自然对数
+    this.registerFunction('LN', (args) => this.elementwise(args, (x) => (x > 0 ? Math.log(x) : NaN)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的自然对数，X不大于0时为空值',
+      category: FunctionCategory.Math,
+      description: '自然对数',
+      descriptionEn: 'Natural logarithm of X',
+    });
+
+    // 常用对数（以10为底）
+    this.registerFunction('LOG', (args) => this.elementwise(args, (x) => (x > 0 ? Math.log10(x) : NaN)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的常用对数，X不大于0时为空值',
+      category: FunctionCategory.Math,
+      description: '常用对数',
+      descriptionEn: 'Base-10 logarithm of X',
+    });
+
+    // 四舍五入取整
+    this.registerFunction('ROUND', (args) => this.elementwise(args, (x) => this.roundHalfAwayFromZero(x, 0)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X四舍五入到整数',
+      category: FunctionCategory.Math,
+      description: '四舍五入',
+      descriptionEn: 'X rounded to the nearest integer, halves away from zero',
+    });
+
+    // 四舍五入保留N位小数
+    this.registerFunction('ROUND2', (args) => this.elementwise(args, (x, n) => this.roundHalfAwayFromZero(x, Math.floor(n))), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Series, description: '保留的小数位数' },
+      ],
+      returns: 'X四舍五入保留N位小数',
+      category: FunctionCategory.Math,
+      description: '四舍五入保留小数',
+      descriptionEn: 'X rounded to N decimal places',
+    });
+
+    // 取整（向0截断）
+    this.registerFunction('INTPART', (args) => this.elementwise(args, (x) => Math.trunc(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的整数部分',
+      category: FunctionCategory.Math,
+      description: '取整',
+      descriptionEn: 'Integer part of X, truncated towards zero',
+    });
+
+    // 向上取整
+    this.registerFunction('CEILING', (args) => this.elementwise(args, (x) => Math.ceil(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: '不小于X的最小整数',
+      category: FunctionCategory.Math,
+      description: '向上取整',
+      descriptionEn: 'Smallest integer not less than X',
+    });
+
+    // 向下取整
+    this.registerFunction('FLOOR', (args) => this.elementwise(args, (x) => Math.floor(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: '不大于X的最大整数',
+      category: FunctionCategory.Math,
+      description: '向下取整',
+      descriptionEn: 'Largest integer not greater than X',
     });
 
+    // 求模，余数与除数同号（如MOD(-3.5,2)=0.5）
+    this.registerFunction('MOD', (args) => this.elementwise(args, (a, b) => (b === 0 ? NaN : a - b * Math.floor(a / b))), {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '被除数' },
+        { name: 'B', kind: ParameterKind.Series, description: '除数' },
+      ],
+      returns: 'A除以B的余数，B为0时为空值',
+      category: FunctionCategory.Math,
+      description: '求模',
+      descriptionEn: 'Remainder of A divided by B, with the sign of B',
+    });
+
+    // 符号
+    this.registerFunction('SIGN', (args) => this.elementwise(args, (x) => Math.sign(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X为正数时为1，负数时为-1，0时为0',
+      category: FunctionCategory.Math,
+      description: '符号',
+      descriptionEn: 'Sign of X',
+    });
+
+    // 相反数
+    this.registerFunction('REVERSE', (args) => this.elementwise(args, (x) => -x), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的相反数',
+      category: FunctionCategory.Math,
+      description: '相反数',
+      descriptionEn: 'Negation of X',
+    });
+
+    // 正弦
+    this.registerFunction('SIN', (args) => this.elementwise(args, (x) => Math.sin(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '弧度' },
+      ],
+      returns: 'X的正弦值',
+      category: FunctionCategory.Math,
+      description: '正弦',
+      descriptionEn: 'Sine of X in radians',
+    });
+
+    // 余弦
+    this.registerFunction('COS', (args) => this.elementwise(args, (x) => Math.cos(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '弧度' },
+      ],
+      returns: 'X的余弦值',
+      category: FunctionCategory.Math,
+      description: '余弦',
+      descriptionEn: 'Cosine of X in radians',
+    });
+
+    // 正切
+    this.registerFunction('TAN', (args) => this.elementwise(args, (x) => Math.tan(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '弧度' },
+      ],
+      returns: 'X的正切值',
+      category: FunctionCategory.Math,
+      description: '正切',
+      descriptionEn: 'Tangent of X in radians',
+    });
+
+    // 反正弦
+    this.registerFunction('ASIN', (args) => this.elementwise(args, (x) => Math.asin(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的反正弦值，X超出[-1,1]时为空值',
+      category: FunctionCategory.Math,
+      description: '反正弦',
+      descriptionEn: 'Arcsine of X in radians',
+    });
+
+    // 反余弦
+    this.registerFunction('ACOS', (args) => this.elementwise(args, (x) => Math.acos(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的反余弦值，X超出[-1,1]时为空值',
+      category: FunctionCategory.Math,
+      description: '反余弦',
+      descriptionEn: 'Arccosine of X in radians',
+    });
+
+    // 反正切
+    this.registerFunction('ATAN', (args) => this.elementwise(args, (x) => Math.atan(x)), {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: 'X的反正切值',
+      category: FunctionCategory.Math,
+      description: '反正切',
+      descriptionEn: 'Arctangent of X in radians',
+    });
+
+    // 介于两者之间（含边界，B、C顺序不限）
+    this.registerFunction('BETWEEN', (args) => this.elementwise(args, (a, b, c) => (a >= Math.min(b, c) && a <= Math.max(b, c) ? 1 : 0)), {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'B', kind: ParameterKind.Series, description: '边界B' },
+        { name: 'C', kind: ParameterKind.Series, description: '边界C' },
+      ],
+      returns: 'A介于B和C之间（含边界）时为1，否则为0',
+      category: FunctionCategory.Logic,
+      description: '介于',
+      descriptionEn: '1 when A lies between B and C inclusive',
+    });
+
+    // 在开区间范围内
+    this.registerFunction('RANGE', (args) => this.elementwise(args, (a, b, c) => (a > b && a < c ? 1 : 0)), {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'B', kind: ParameterKind.Series, description: '下界' },
+        { name: 'C', kind: ParameterKind.Series, description: '上界' },
+      ],
+      returns: 'A大于B且小于C时为1，否则为0',
+      category: FunctionCategory.Logic,
+      description: '范围',
+      descriptionEn: '1 when B < A < C',
+    });
+
+    // 之字转向：价格反向变动超过N%时确认一个转折点，转折点之间线性连接。
+    // 最后一段会随新K线的到来而改变，属于未来函数
+    this.registerFunction('ZIG', (args, context) => {
+      const [priceArg, percentArg] = args;
+      const data = this.resolvePriceArg(priceArg, context);
+      return this.zigzag(data, this.getNumberArg(percentArg)).line;
+    }, {
+      params: [
+        { name: 'K', kind: ParameterKind.Series, description: '价格序列，如C、H，或价格类型0-3（开、高、低、收）' },
+        { name: 'N', kind: ParameterKind.Constant, description: '转向的百分比幅度' },
+      ],
+      returns: 'K的N%之字转向线',
+      category: FunctionCategory.Pattern,
+      description: '之字转向',
+      descriptionEn: 'Zigzag line of K reversing on N percent moves',
+      future: true,
+    });
+
+    // 前M个之字转向波峰/波谷的值或到当前的周期数
+    const swingFunctions: Array<[string, 'peak' | 'trough', boolean, string, string, string]> = [
+      ['PEAK', 'peak', false, '前M个之字转向波峰的值', '波峰值', 'Value of the M-th most recent zigzag peak'],
+      ['PEAKBARS', 'peak', true, '前M个之字转向波峰到当前的周期数', '波峰位置', 'Bars since the M-th most recent zigzag peak'],
+      ['TROUGH', 'trough', false, '前M个之字转向波谷的值', '波谷值', 'Value of the M-th most recent zigzag trough'],
+      ['TROUGHBARS', 'trough', true, '前M个之字转向波谷到当前的周期数', '波谷位置', 'Bars since the M-th most recent zigzag trough'],
+    ];
+    for (const [name, kind, bars, returns, description, descriptionEn] of swingFunctions) {
+      this.registerFunction(name, (args, context) => {
+        const [priceArg, percentArg, nthArg] = args;
+        const data = this.resolvePriceArg(priceArg, context);
+        const nth = this.getNumberArg(nthArg);
+        const pivots = this.zigzag(data, this.getNumberArg(percentArg)).pivots.filter(
+          (pivot) => pivot.kind === kind
+        );
+        
+        // 指针指向最后一个不晚于当前K线的转折点
+        let last = -1;
+        return data.map((_, i) => {
+          while (last + 1 < pivots.length && pivots[last + 1].index <= i) {
+            last++;
+          }
+          const pivot = nth >= 1 ? pivots[last - nth + 1] : undefined;
+          if (!pivot) {
+            return null;
+          }
+          return bars ? i - pivot.index : pivot.value;
+        });
+      }, {
+        params: [
+          { name: 'K', kind: ParameterKind.Series, description: '价格序列，如C、H，或价格类型0-3（开、高、低、收）' },
+          { name: 'N', kind: ParameterKind.Constant, description: '转向的百分比幅度' },
+          { name: 'M', kind: ParameterKind.Constant, defaultValue: 1, description: '前第M个' },
+        ],
+        returns,
+        category: FunctionCategory.Pattern,
+        description,
+        descriptionEn,
+        future: true,
+      });
+    }
+
     // 计数函数
     this.registerFunction('COUNT', (args) => {
       const [condition, periodArg] = args;
-      const period = this.getNumberArg(periodArg);
-      
-      const result: (number | null)[] = [];
       
-      for (let i = 0; i < condition.length; i++) {
-        if (i < period - 1) {
-          result.push(null);
-          continue;
-        }
-        
+      return this.rolling(condition.length, periodArg, true, (start, end) => {
         let count = 0;
         
-        for (let j = i - period + 1; j <= i; j++) {
+        for (let j = start; j <= end; j++) {
           if (condition[j] !== null && condition[j]! !== 0) {
             count++;
           }
         }
         
-        result.push(count);
+        return count;
+      });
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，可以逐K线变化，0表示从第一根K线开始' },
+      ],
+      returns: 'N周期内COND成立的次数',
+      category: FunctionCategory.Statistics,
+      description: '条件计数',
+      descriptionEn: 'Number of bars where COND holds within N bars',
+    });
+
+    // 上一次条件成立到当前的周期数，当前成立时为0，从未成立时为空值
+    this.registerFunction('BARSLAST', (args) => {
+      const [condition] = args;
+      let lastIndex = -1;
+      
+      return condition.map((cond, i) => {
+        if (this.isTrue(cond)) {
+          lastIndex = i;
+        }
+        return lastIndex === -1 ? null : i - lastIndex;
+      });
+    }, {
+      params: [{ name: 'COND', kind: ParameterKind.Series, description: '条件' }],
+      returns: '上一次COND成立到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '上一次条件成立到当前的周期数',
+      descriptionEn: 'Bars since COND was last true (0 when true on the current bar)',
+    });
+
+    // 第一次条件成立到当前的周期数，从未成立时为空值
+    this.registerFunction('BARSSINCE', (args) => {
+      const [condition] = args;
+      let firstIndex = -1;
+      
+      return condition.map((cond, i) => {
+        if (firstIndex === -1 && this.isTrue(cond)) {
+          firstIndex = i;
+        }
+        return firstIndex === -1 ? null : i - firstIndex;
+      });
+    }, {
+      params: [{ name: 'COND', kind: ParameterKind.Series, description: '条件' }],
+      returns: '第一次COND成立到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '第一次条件成立到当前的周期数',
+      descriptionEn: 'Bars since COND was first true',
+    });
+
+    // N周期内第一次条件成立到当前的周期数，N周期内从未成立时为空值
+    this.registerFunction('BARSSINCEN', (args) => {
+      const [condition, periodArg] = args;
+      const period = this.getNumberArg(periodArg);
+      
+      if (period <= 0) throw new Error('BARSSINCEN period must be positive');
+      
+      const result: (number | null)[] = [];
+      
+      for (let i = 0; i < condition.length; i++) {
+        let found: number | null = null;
+        for (let j = Math.max(0, i - period + 1); j <= i; j++) {
+          if (this.isTrue(condition[j])) {
+            found = i - j;
+            break;
+          }
+        }
+        result.push(found);
       }
       
       return result;
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'N周期内第一次COND成立到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: 'N周期内第一次条件成立到当前的周期数',
+      descriptionEn: 'Bars since COND was first true within the last N bars',
     });
 
-    // 标准差函数 - 新增示例
-    this.registerFunction('STD', (args) => {
-      const [data, periodArg] = args;
+    // 第一个有效数据到当前的周期数（含当前K线），之前为空值
+    this.registerFunction('BARSCOUNT', (args) => {
+      const [data] = args;
+      let firstIndex = -1;
+      
+      return data.map((value, i) => {
+        if (firstIndex === -1 && value !== null) {
+          firstIndex = i;
+        }
+        return firstIndex === -1 ? null : i - firstIndex + 1;
+      });
+    }, {
+      params: [{ name: 'X', kind: ParameterKind.Series, description: '数据序列' }],
+      returns: '第一个有效的X到当前的周期数',
+      category: FunctionCategory.Reference,
+      description: '有效数据周期数',
+      descriptionEn: 'Number of bars since the first valid value of X, inclusive',
+    });
+
+    // 条件连续成立的周期数，当前不成立时为0
+    this.registerFunction('BARSLASTCOUNT', (args) => {
+      const [condition] = args;
+      let count = 0;
+      
+      return condition.map((cond) => {
+        count = this.isTrue(cond) ? count + 1 : 0;
+        return count;
+      });
+    }, {
+      params: [{ name: 'COND', kind: ParameterKind.Series, description: '条件' }],
+      returns: 'COND连续成立的周期数',
+      category: FunctionCategory.Reference,
+      description: '条件连续成立的周期数',
+      descriptionEn: 'Number of consecutive bars up to now where COND is true',
+    });
+
+    // 条件成立时取X的当前值，否则沿用上一次的值，条件从未成立时为空值
+    this.registerFunction('VALUEWHEN', (args) => {
+      const [condition, data] = args;
+      let lastValue: number | null = null;
+      
+      return condition.map((cond, i) => {
+        if (this.isTrue(cond)) {
+          lastValue = data[i];
+        }
+        return lastValue;
+      });
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      ],
+      returns: '最近一次COND成立时X的值',
+      category: FunctionCategory.Reference,
+      description: '条件跟随',
+      descriptionEn: 'Value of X when COND was last true',
+    });
+
+    // 信号过滤：条件成立时为1，并将其后N根K线的信号置0
+    this.registerFunction('FILTER', (args) => {
+      const [condition, periodArg] = args;
       const period = this.getNumberArg(periodArg);
       
       const result: (number | null)[] = [];
+      let suppressUntil = -1;
       
-      for (let i = 0; i < data.length; i++) {
-        if (i < period - 1) {
-          result.push(null);
+      for (let i = 0; i < condition.length; i++) {
+        if (i > suppressUntil && this.isTrue(condition[i])) {
+          result.push(1);
+          suppressUntil = i + period;
+        } else {
+          result.push(0);
+        }
+      }
+      
+      return result;
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'N', kind: ParameterKind.Constant, description: '过滤的周期数' },
+      ],
+      returns: 'COND成立时为1，其后N周期内的信号被过滤为0',
+      category: FunctionCategory.Reference,
+      description: '信号过滤',
+      descriptionEn: '1 when COND is true, suppressing the signal for the next N bars',
+    });
+
+    // 向前赋值：条件成立时将当前及之前共N根K线置1
+    this.registerFunction('BACKSET', (args) => {
+      const [condition, periodArg] = args;
+      const result: (number | null)[] = new Array(condition.length).fill(0);
+      
+      for (let i = 0; i < condition.length; i++) {
+        const period = periodArg.length === 1 ? periodArg[0] : periodArg[i];
+        if (!this.isTrue(condition[i]) || period === null) {
           continue;
         }
-        
-        // 计算平均值
-        let sum = 0;
-        let count = 0;
-        
-        for (let j = i - period + 1; j <= i; j++) {
-          if (data[j] !== null) {
-            sum += data[j]!;
-            count++;
+        for (let j = Math.max(0, i - Math.floor(period) + 1); j <= i; j++) {
+          result[j] = 1;
+        }
+      }
+      
+      return result;
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'N', kind: ParameterKind.Series, description: '向前赋值的周期数（含当前K线）' },
+      ],
+      returns: 'COND成立时当前及之前共N周期为1，其余为0',
+      category: FunctionCategory.Reference,
+      description: '向前赋值',
+      descriptionEn: 'Sets the current and previous N-1 bars to 1 when COND is true',
+    });
+
+    // N周期内条件一直成立
+    this.registerFunction('EVERY', (args) => {
+      const [condition, periodArg] = args;
+      
+      return this.rolling(condition.length, periodArg, true, (start, end) => {
+        for (let j = start; j <= end; j++) {
+          if (!this.isTrue(condition[j])) {
+            return 0;
           }
         }
-        
-        if (count === 0) {
-          result.push(null);
-          continue;
+        return 1;
+      });
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，0表示从第一根K线开始' },
+      ],
+      returns: 'N周期内COND一直成立时为1，否则为0',
+      category: FunctionCategory.Logic,
+      description: '一直存在',
+      descriptionEn: '1 when COND holds on every bar within N bars',
+    });
+
+    // N周期内条件至少成立一次
+    this.registerFunction('EXIST', (args) => {
+      const [condition, periodArg] = args;
+      
+      return this.rolling(condition.length, periodArg, true, (start, end) => {
+        for (let j = start; j <= end; j++) {
+          if (this.isTrue(condition[j])) {
+            return 1;
+          }
+        }
+        return 0;
+      });
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'N', kind: ParameterKind.Series, description: '周期，0表示从第一根K线开始' },
+      ],
+      returns: 'N周期内COND至少成立一次时为1，否则为0',
+      category: FunctionCategory.Logic,
+      description: '存在',
+      descriptionEn: '1 when COND holds on any bar within N bars',
+    });
+
+    // 从前A周期到前B周期条件一直成立，A为0表示从第一根K线开始，B为0表示到当前K线
+    this.registerFunction('LAST', (args) => {
+      const [condition, fromArg, toArg] = args;
+      
+      return condition.map((_, i) => {
+        const from = fromArg.length === 1 ? fromArg[0] : fromArg[i];
+        const to = toArg.length === 1 ? toArg[0] : toArg[i];
+        if (from === null || to === null) {
+          return null;
         }
         
-        const mean = sum / count;
+        const start = from === 0 ? 0 : i - Math.floor(from);
+        const end = i - Math.floor(to);
+        if (start < 0 || end < start) {
+          return null;
+        }
         
-        // 计算方差
-        let variance = 0;
-        for (let j = i - period + 1; j <= i; j++) {
-          if (data[j] !== null) {
-            variance += Math.pow(data[j]! - mean, 2);
+        for (let j = start; j <= end; j++) {
+          if (!this.isTrue(condition[j])) {
+            return 0;
           }
         }
-        
-        // 计算标准差
-        const stdDev = Math.sqrt(variance / count);
-        result.push(stdDev);
-      }
+        return 1;
+      });
+    }, {
+      params: [
+        { name: 'COND', kind: ParameterKind.Series, description: '条件' },
+        { name: 'A', kind: ParameterKind.Series, description: '起始周期（前A周期），0表示从第一根K线开始' },
+        { name: 'B', kind: ParameterKind.Series, description: '结束周期（前B周期），0表示当前K线' },
+      ],
+      returns: '从前A周期到前B周期COND一直成立时为1，否则为0',
+      category: FunctionCategory.Logic,
+      description: '持续存在',
+      descriptionEn: '1 when COND holds from A bars ago through B bars ago',
+    });
+
+    // 标准差（样本估计，与通达信一致）
+    this.registerFunction('STD', (args) => {
+      const [data, periodArg] = args;
       
-      return result;
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        return values.length > 1 ? Math.sqrt(this.sumOfSquaredDeviations(values) / (values.length - 1)) : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期样本标准差',
+      category: FunctionCategory.Statistics,
+      description: '估算标准差',
+      descriptionEn: 'Sample standard deviation of X over N bars',
+    });
+
+    // 总体标准差
+    this.registerFunction('STDP', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        return values.length > 0 ? Math.sqrt(this.sumOfSquaredDeviations(values) / values.length) : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期总体标准差',
+      category: FunctionCategory.Statistics,
+      description: '总体标准差',
+      descriptionEn: 'Population standard deviation of X over N bars',
+    });
+
+    // 样本方差
+    this.registerFunction('VAR', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        return values.length > 1 ? this.sumOfSquaredDeviations(values) / (values.length - 1) : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期样本方差',
+      category: FunctionCategory.Statistics,
+      description: '估算样本方差',
+      descriptionEn: 'Sample variance of X over N bars',
+    });
+
+    // 总体方差
+    this.registerFunction('VARP', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        return values.length > 0 ? this.sumOfSquaredDeviations(values) / values.length : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期总体方差',
+      category: FunctionCategory.Statistics,
+      description: '总体样本方差',
+      descriptionEn: 'Population variance of X over N bars',
+    });
+
+    // 平均绝对偏差
+    this.registerFunction('AVEDEV', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        if (values.length === 0) {
+          return null;
+        }
+        const mean = this.mean(values);
+        return values.reduce((sum, value) => sum + Math.abs(value - mean), 0) / values.length;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期平均绝对偏差',
+      category: FunctionCategory.Statistics,
+      description: '平均绝对偏差',
+      descriptionEn: 'Mean absolute deviation of X over N bars',
+    });
+
+    // 偏差平方和
+    this.registerFunction('DEVSQ', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        return values.length > 0 ? this.sumOfSquaredDeviations(values) : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期偏差平方和',
+      category: FunctionCategory.Statistics,
+      description: '数据偏差平方和',
+      descriptionEn: 'Sum of squared deviations of X over N bars',
+    });
+
+    // 线性回归斜率：以窗口内的K线序号为自变量
+    this.registerFunction('SLOPE', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const fit = this.linearRegression(data, start, end);
+        return fit ? fit.slope : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期线性回归斜率',
+      category: FunctionCategory.Statistics,
+      description: '线性回归斜率',
+      descriptionEn: 'Slope of the linear regression of X over N bars',
+    });
+
+    // 线性回归预测值：回归直线在当前K线上的取值
+    this.registerFunction('FORCAST', (args) => {
+      const [data, periodArg] = args;
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const fit = this.linearRegression(data, start, end);
+        return fit ? fit.intercept + fit.slope * (end - start) : null;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期线性回归预测值',
+      category: FunctionCategory.Statistics,
+      description: '线性回归预测值',
+      descriptionEn: 'Linear regression estimate of X on the current bar',
+    });
+
+    // 协方差（总体）
+    this.registerFunction('COVAR', (args) => {
+      const [a, b, periodArg] = args;
+      
+      return this.rolling(a.length, periodArg, false, (start, end) => {
+        const [valuesA, valuesB] = this.collectPairs(a, b, start, end);
+        return valuesA.length > 0 ? this.covariance(valuesA, valuesB) : null;
+      });
+    }, {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '序列A' },
+        { name: 'B', kind: ParameterKind.Series, description: '序列B' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'A与B的N周期协方差',
+      category: FunctionCategory.Statistics,
+      description: '协方差',
+      descriptionEn: 'Population covariance of A and B over N bars',
+    });
+
+    // 相关系数
+    const relate: FunctionType = (args) => {
+      const [a, b, periodArg] = args;
+      
+      return this.rolling(a.length, periodArg, false, (start, end) => {
+        const [valuesA, valuesB] = this.collectPairs(a, b, start, end);
+        if (valuesA.length < 2) {
+          return null;
+        }
+        const deviation = Math.sqrt(this.covariance(valuesA, valuesA) * this.covariance(valuesB, valuesB));
+        return deviation === 0 ? null : this.covariance(valuesA, valuesB) / deviation;
+      });
+    };
+    const relateMetadata: FunctionMetadata = {
+      params: [
+        { name: 'A', kind: ParameterKind.Series, description: '序列A' },
+        { name: 'B', kind: ParameterKind.Series, description: '序列B' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'A与B的N周期相关系数，取值在-1到1之间',
+      category: FunctionCategory.Statistics,
+      description: '相关系数',
+      descriptionEn: 'Pearson correlation of A and B over N bars',
+    };
+    this.registerFunction('RELATE', relate, relateMetadata);
+    this.registerFunction('CORR', relate, relateMetadata);
+
+    // 贝塔系数：X的收益率相对指数收益率的回归系数，指数序列需要通过自定义数据传入
+    this.registerFunction('BETA', (args) => {
+      const [data, index, periodArg] = args;
+      const returns = this.toReturns(data);
+      const indexReturns = this.toReturns(index);
+      
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const [valuesA, valuesB] = this.collectPairs(returns, indexReturns, start, end);
+        if (valuesA.length < 2) {
+          return null;
+        }
+        const indexVariance = this.covariance(valuesB, valuesB);
+        return indexVariance === 0 ? null : this.covariance(valuesA, valuesB) / indexVariance;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '证券价格序列' },
+        { name: 'INDEX', kind: ParameterKind.Series, description: '大盘指数序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X相对INDEX的N周期贝塔系数',
+      category: FunctionCategory.Statistics,
+      description: '贝塔系数',
+      descriptionEn: 'Beta of the returns of X against the returns of INDEX over N bars',
     });
 
     // 变异系数函数 - 新增示例
     this.registerFunction('CV', (args) => {
       const [data, periodArg] = args;
-      const period = this.getNumberArg(periodArg);
-      
-      const result: (number | null)[] = [];
       
-      for (let i = 0; i < data.length; i++) {
-        if (i < period - 1) {
-          result.push(null);
-          continue;
+      // 与STD使用相同的样本标准差，保证CV(X,N)=STD(X,N)/MA(X,N)
+      return this.rolling(data.length, periodArg, false, (start, end) => {
+        const values = this.collectValues(data, start, end);
+        if (values.length < 2) {
+          return null;
         }
-        
-        // 计算平均值
-        let sum = 0;
-        let count = 0;
-        
-        for (let j = i - period + 1; j <= i; j++) {
-          if (data[j] !== null) {
-            sum += data[j]!;
-            count++;
-          }
+        const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+        if (mean === 0) {
+          return null;
         }
-        
-        if (count === 0 || sum === 0) {
-          result.push(null);
-          continue;
+        return Math.sqrt(this.sumOfSquaredDeviations(values) / (values.length - 1)) / mean;
+      });
+    }, {
+      params: [
+        { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+        { name: 'N', kind: ParameterKind.Constant, description: '周期' },
+      ],
+      returns: 'X的N周期样本标准差与均值之比',
+      category: FunctionCategory.Statistics,
+      description: '变异系数',
+      descriptionEn: 'Coefficient of variation of X over N bars',
+    });
+  }
+
+  // 递推平滑：Y=alpha*X+(1-alpha)*Y'，第一个有效值直接作为初值；
+  // X为空时输出空值并保留上一次的Y，alpha为空时同样输出空值
+  private smooth(data: (number | null)[], alphaAt: (index: number) => number | null): (number | null)[] {
+    const result: (number | null)[] = [];
+    let previous: number | null = null;
+    
+    for (let i = 0; i < data.length; i++) {
+      const value = data[i];
+      const alpha = alphaAt(i);
+      if (value === null || alpha === null) {
+        result.push(null);
+        continue;
+      }
+      
+      previous = previous === null ? value : alpha * value + (1 - alpha) * previous;
+      result.push(previous);
+    }
+    
+    return result;
+  }
+
+  // 滚动窗口计算：对每根K线i按周期N得到窗口[i-N+1, i]交给compute。
+  // 周期可以逐K线变化，为空或窗口不完整时输出空值；allowAll为true时周期0表示从第一根K线开始
+  private rolling(
+    length: number,
+    periodArg: (number | null)[],
+    allowAll: boolean,
+    compute: (start: number, end: number) => number | null
+  ): (number | null)[] {
+    const result: (number | null)[] = [];
+    const constantPeriod = this.getConstantArg(periodArg);
+    
+    for (let i = 0; i < length; i++) {
+      // 常数周期快速路径：不必逐K线读取周期
+      const rawPeriod = constantPeriod ?? periodArg[i];
+      if (rawPeriod === null) {
+        result.push(null);
+        continue;
+      }
+      
+      const period = Math.floor(rawPeriod);
+      if (period === 0 && allowAll) {
+        result.push(compute(0, i));
+        continue;
+      }
+      if (period <= 0 || i < period - 1) {
+        result.push(null);
+        continue;
+      }
+      
+      result.push(compute(i - period + 1, i));
+    }
+    
+    return result;
+  }
+
+  // 参数在所有K线上取值相同时返回该常数，否则返回null
+  private getConstantArg(argValues: (number | null)[]): number | null {
+    const first = argValues[0];
+    if (first === null || first === undefined) {
+      return null;
+    }
+    for (let i = 1; i < argValues.length; i++) {
+      if (argValues[i] !== first) {
+        return null;
+      }
+    }
+    return first;
+  }
+
+  // 逐K线计算，任一参数为空或结果不是有限数（如负数开方）时输出空值
+  private elementwise(
+    args: (number | null)[][],
+    compute: (...values: number[]) => number
+  ): (number | null)[] {
+    return args[0].map((_, i) => {
+      const values: number[] = [];
+      for (const arg of args) {
+        const value = arg[i];
+        if (value === null || value === undefined) {
+          return null;
         }
-        
-        const mean = sum / count;
-        
-        // 计算标准差
-        let variance = 0;
-        for (let j = i - period + 1; j <= i; j++) {
-          if (data[j] !== null) {
-            variance += Math.pow(data[j]! - mean, 2);
+        values.push(value);
+      }
+      
+      const result = compute(...values);
+      if (!Number.isFinite(result)) {
+        return null;
+      }
+      // 统一-0和0，避免REVERSE(0)、INTPART(-0.5)等结果输出-0
+      return result === 0 ? 0 : result;
+    });
+  }
+
+  // 四舍五入，0.5向远离0的方向进位；借助指数表示移位，避免1.005*100这类浮点误差
+  private roundHalfAwayFromZero(value: number, digits: number): number {
+    const shift = (x: number, places: number): number => {
+      const [mantissa, exponent = '0'] = `${x}`.split('e');
+      return Number(`${mantissa}e${Number(exponent) + places}`);
+    };
+    const rounded = shift(Math.round(shift(Math.abs(value), digits)), -digits);
+    return value < 0 ? -rounded : rounded;
+  }
+
+  // 取窗口[start, end]内的有效值
+  private collectValues(data: (number | null)[], start: number, end: number): number[] {
+    const values: number[] = [];
+    for (let j = start; j <= end; j++) {
+      if (data[j] !== null) {
+        values.push(data[j]!);
+      }
+    }
+    return values;
+  }
+
+  // 取窗口[start, end]内两个序列同时有效的值
+  private collectPairs(
+    a: (number | null)[],
+    b: (number | null)[],
+    start: number,
+    end: number
+  ): [number[], number[]] {
+    const valuesA: number[] = [];
+    const valuesB: number[] = [];
+    for (let j = start; j <= end; j++) {
+      if (a[j] !== null && b[j] !== null) {
+        valuesA.push(a[j]!);
+        valuesB.push(b[j]!);
+      }
+    }
+    return [valuesA, valuesB];
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private sumOfSquaredDeviations(values: number[]): number {
+    const mean = this.mean(values);
+    return values.reduce((sum, value) => sum + (value - mean) * (value - mean), 0);
+  }
+
+  // 总体协方差
+  private covariance(valuesA: number[], valuesB: number[]): number {
+    const meanA = this.mean(valuesA);
+    const meanB = this.mean(valuesB);
+    let sum = 0;
+    for (let j = 0; j < valuesA.length; j++) {
+      sum += (valuesA[j] - meanA) * (valuesB[j] - meanB);
+    }
+    return sum / valuesA.length;
+  }
+
+  // 最小二乘线性回归，自变量为相对窗口起点的K线序号，有效值不足两个时返回null
+  private linearRegression(
+    data: (number | null)[],
+    start: number,
+    end: number
+  ): { slope: number; intercept: number } | null {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let j = start; j <= end; j++) {
+      if (data[j] !== null) {
+        xs.push(j - start);
+        ys.push(data[j]!);
+      }
+    }
+    if (xs.length < 2) {
+      return null;
+    }
+    
+    const slope = this.covariance(xs, ys) / this.covariance(xs, xs);
+    return { slope, intercept: this.mean(ys) - slope * this.mean(xs) };
+  }
+
+  // 逐K线收益率：X/REF(X,1)-1
+  private toReturns(data: (number | null)[]): (number | null)[] {
+    return data.map((value, i) => {
+      const previous = i > 0 ? data[i - 1] : null;
+      return value === null || previous === null || previous === 0 ? null : value / previous - 1;
+    });
+  }
+
+  // 滑动窗口内极值所在的K线序号。prefer(新值, 旧值)为true时新值取代旧值，
+  // 相等时也取代，从而极值出现多次时取最近一次。常数周期使用单调队列，整体O(n)；
+  // 逐K线变化的周期逐个窗口扫描
+  private extremeIndices(
+    data: (number | null)[],
+    periodArg: (number | null)[],
+    prefer: (candidate: number, current: number) => boolean
+  ): (number | null)[] {
+    const constantPeriod = this.getConstantArg(periodArg);
+    
+    if (constantPeriod === null) {
+      return this.rolling(data.length, periodArg, true, (start, end) => {
+        let best: number | null = null;
+        for (let j = start; j <= end; j++) {
+          if (data[j] !== null && (best === null || prefer(data[j]!, data[best]!))) {
+            best = j;
           }
         }
-        
-        const stdDev = Math.sqrt(variance / count);
-        
-        // 计算变异系数 = 标准差 / 平均值
-        const cv = stdDev / mean;
-        result.push(cv);
+        return best;
+      });
+    }
+    
+    const period = Math.floor(constantPeriod);
+    const result: (number | null)[] = [];
+    // 队列中保存K线序号，对应的值从队首到队尾单调，队首即为窗口极值
+    const deque: number[] = [];
+    let head = 0;
+    
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] !== null) {
+        while (deque.length > head && prefer(data[i]!, data[deque[deque.length - 1]]!)) {
+          deque.pop();
+        }
+        deque.push(i);
       }
       
-      return result;
+      if (period < 0 || (period > 0 && i < period - 1)) {
+        result.push(null);
+        continue;
+      }
+      // 周期为0时窗口从第一根K线开始，不需要移出
+      while (period > 0 && deque.length > head && deque[head] < i - period + 1) {
+        head++;
+      }
+      result.push(deque.length > head ? deque[head] : null);
+    }
+    
+    return result;
+  }
+
+  // 在窗口[i-N-M+1, i-N]内按compare排序后取第T个值所在的K线序号，
+  // 值相同时取较近的一根；窗口越过第一根K线或有效值不足T个时为空值
+  private findRanked(
+    data: (number | null)[],
+    offsetArg: (number | null)[],
+    periodArg: (number | null)[],
+    rankArg: (number | null)[],
+    compare: (a: number, b: number) => number
+  ): (number | null)[] {
+    const offset = this.getNumberArg(offsetArg);
+    const period = this.getNumberArg(periodArg);
+    const rank = this.getNumberArg(rankArg);
+    
+    return data.map((_, i) => {
+      const end = i - offset;
+      const start = end - period + 1;
+      if (start < 0 || period <= 0 || rank < 1) {
+        return null;
+      }
+      
+      const indices: number[] = [];
+      for (let j = start; j <= end; j++) {
+        if (data[j] !== null) {
+          indices.push(j);
+        }
+      }
+      indices.sort((a, b) => compare(data[a]!, data[b]!) || b - a);
+      return indices[rank - 1] ?? null;
     });
   }
 
+  // 之字转向的K为常数0-3时表示价格类型：0开盘价、1最高价、2最低价、3收盘价
+  private resolvePriceArg(
+    data: (number | null)[],
+    context?: EvaluationContext
+  ): (number | null)[] {
+    const code = this.getConstantArg(data);
+    if (code === null || ![0, 1, 2, 3].includes(code)) {
+      return data;
+    }
+    if (!context) {
+      throw new Error('ZIG price type codes 0-3 require input data, pass a price series such as C');
+    }
+    const { opens, highs, lows, closes } = context.inputData;
+    return [opens, highs, lows, closes][code];
+  }
+
+  // 计算之字转向：从第一个有效值开始，反向变动超过percent%时确认前一个极值为转折点，
+  // 最后一个极值和最后一根K线作为末段端点。
+  // 起点和末段端点只用于画线，pivots只包含被反向变动确认的波峰和波谷
+  private zigzag(
+    data: (number | null)[],
+    percent: number
+  ): { line: (number | null)[]; pivots: Array<{ index: number; value: number; kind: 'peak' | 'trough' }> } {
+    const line: (number | null)[] = new Array(data.length).fill(null);
+    const first = data.findIndex((value) => value !== null);
+    if (first === -1) {
+      return { line, pivots: [] };
+    }
+    
+    const ratio = percent / 100;
+    const points: number[] = [first];
+    const pivots: Array<{ index: number; value: number; kind: 'peak' | 'trough' }> = [];
+    let trend = 0;
+    let extreme = first;
+    
+    for (let i = first + 1; i < data.length; i++) {
+      const value = data[i];
+      if (value === null) {
+        continue;
+      }
+      const extremeValue = data[extreme]!;
+      
+      if (trend === 0) {
+        if (value >= extremeValue * (1 + ratio)) {
+          trend = 1;
+          extreme = i;
+        } else if (value <= extremeValue * (1 - ratio)) {
+          trend = -1;
+          extreme = i;
+        }
+      } else if (trend > 0) {
+        if (value >= extremeValue) {
+          extreme = i;
+        } else if (value <= extremeValue * (1 - ratio)) {
+          points.push(extreme);
+          pivots.push({ index: extreme, value: extremeValue, kind: 'peak' });
+          trend = -1;
+          extreme = i;
+        }
+      } else if (value <= extremeValue) {
+        extreme = i;
+      } else if (value >= extremeValue * (1 + ratio)) {
+        points.push(extreme);
+        pivots.push({ index: extreme, value: extremeValue, kind: 'trough' });
+        trend = 1;
+        extreme = i;
+      }
+    }
+    
+    if (extreme !== points[points.length - 1]) {
+      points.push(extreme);
+    }
+    let lastValid = data.length - 1;
+    while (data[lastValid] === null) {
+      lastValid--;
+    }
+    const ends = lastValid !== points[points.length - 1] ? [...points, lastValid] : points;
+    
+    // 转折点之间线性插值
+    for (let k = 0; k < ends.length; k++) {
+      const start = ends[k];
+      const end = k + 1 < ends.length ? ends[k + 1] : start;
+      const from = data[start]!;
+      const to = data[end]!;
+      for (let i = start; i <= end; i++) {
+        line[i] = end === start ? from : from + ((to - from) * (i - start)) / (end - start);
+      }
+    }
+    
+    return { line, pivots };
+  }
+
+  // 条件是否成立：非空且非零
+  private isTrue(value: number | null): boolean {
+    return value !== null && value !== 0;
+  }
+
   // 获取数值参数（用于周期参数）
   private getNumberArg(argValues: (number | null)[]): number {
     if (argValues.length === 0) throw new Error('Missing numeric argument');
@@ -375,5 +1878,60 @@ export class DefaultFunctionRegistry implements FunctionRegistry {
   }
 }
 
+// 从多输出函数的返回值中取出一条输出，省略输出名称时取元数据中的第一个输出
+export function selectOutput(
+  name: string,
+  result: MultiSeriesResult,
+  component?: string,
+  outputs?: string[]
+): (number | null)[] {
+  const key = component?.toUpperCase() ?? outputs?.[0] ?? Object.keys(result)[0];
+  const series = key === undefined ? undefined : result[key];
+  if (!series) {
+    throw new Error(
+      `Function ${name} has no output ${component ?? key}, available: ${Object.keys(result).join(', ')}`
+    );
+  }
+  return series;
+}
+
+// 在任意注册器中注册多输出函数：未实现registerMultiOutputFunction的注册器只注册默认输出
+export function registerMultiOutputFunction(
+  registry: FunctionRegistry,
+  name: string,
+  func: MultiOutputFunctionType,
+  metadata: FunctionMetadata & { outputs: string[] }
+): void {
+  if (registry.registerMultiOutputFunction) {
+    registry.registerMultiOutputFunction(name, func, metadata);
+    return;
+  }
+  const upperName = name.toUpperCase();
+  registry.registerFunction(
+    upperName,
+    (args, context) => selectOutput(upperName, func(args, context), undefined, metadata.outputs),
+    metadata
+  );
+}
+
+// 查询任意注册器中的函数信息：未实现getFunctionInfo的注册器按未提供元数据处理
+export function getFunctionInfo(registry: FunctionRegistry, name: string): FunctionInfo | undefined {
+  if (registry.getFunctionInfo) {
+    return registry.getFunctionInfo(name);
+  }
+  if (!registry.hasFunction(name)) {
+    return undefined;
+  }
+  return {
+    name: name.toUpperCase(),
+    params: [],
+    minArgs: 0,
+    maxArgs: Infinity,
+    category: FunctionCategory.Other,
+    future: false,
+    documented: false,
+  };
+}
+
 // 创建全局函数注册器实例
 export const globalFunctionRegistry = new DefaultFunctionRegistry();
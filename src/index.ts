@@ -1,7 +1,12 @@
 export * from './token';
 export * from './lexer';
 export * from './ast';
+export * from './plot-style';
 export * from './parser';
+export * from './diagnostics';
+export * from './printer';
+export * from './visitor';
+export * from './checker';
 export * from './evaluator';
 export * from './data';
 export * from './runner';
@@ -1,313 +1,400 @@
 // @ixjb94/indicators 包集成模块 - 使用内置的同步方法
 import { IndicatorsSync } from '@ixjb94/indicators';
-import { FunctionRegistry } from './function-registry';
+import {
+  FunctionRegistry,
+  FunctionCategory,
+  MultiSeriesResult,
+  ParameterKind,
+  registerMultiOutputFunction
+} from './function-registry';
 
 // 创建 Indicators 实例
 const indicators = new IndicatorsSync();
 
+// 去掉前导空值后传给指标包的输入
+interface AdaptedInputs {
+  offset: number;           // 第一个所有输入都有效的位置
+  data: number[][];         // 从offset开始、已填补空值的输入
+  gaps: boolean[];          // 原始位置上是否有输入为空值
+  originalLength: number;
+}
+
+// 多输出指标的输出名称，第一个为默认输出
+const MACD_OUTPUTS = ['DIF', 'DEA', 'HIST'];
+const BBANDS_OUTPUTS = ['MIDDLE', 'UPPER', 'LOWER'];
+const STOCH_OUTPUTS = ['K', 'D'];
+
 /**
  * 将 @ixjb94/indicators 包的所有函数集成到函数注册器中
  * 使用包内置的同步计算方法，避免重复实现
  */
 export function integrateIndicatorsPackage(functionRegistry: FunctionRegistry): void {
-  // 数据适配器 - 将我们的数据转换为指标包需要的格式
-  function adaptData(data: (number | null)[]): number[] {
-    return data.map((value) => (value === null ? 0 : value));
-  }
-
-  // 结果适配器 - 将指标包的结果转换为我们的格式（处理一维数组）
-  function adaptResult(result: number[], originalLength: number): (number | null)[] {
-    const adapted: (number | null)[] = [];
-
-    // 指标包的结果通常比原始数据短，需要填充前面的null值
-    const diff = originalLength - result.length;
-    for (let i = 0; i < diff; i++) {
-      adapted.push(null);
-    }
-
-    // 添加有效结果
-    for (const value of result) {
-      adapted.push(value === 0 || isNaN(value) ? null : value);
+  // 数据适配器 - 指标包不接受空值，去掉所有输入共同的前导空值；
+  // 中间出现的空值沿用前一个有效值参与计算，对应位置的结果仍为空值
+  function adaptData(inputs: (number | null)[][]): AdaptedInputs {
+    const originalLength = inputs[0].length;
+    let offset = 0;
+    for (const series of inputs) {
+      const first = series.findIndex((value) => value !== null);
+      offset = Math.max(offset, first === -1 ? originalLength : first);
     }
 
-    return adapted;
+    const gaps: boolean[] = new Array(originalLength).fill(false);
+    const data = inputs.map((series) => {
+      const adapted: number[] = [];
+      for (let i = offset; i < originalLength; i++) {
+        const value = series[i];
+        if (value === null) {
+          gaps[i] = true;
+          adapted.push(adapted[adapted.length - 1]);
+        } else {
+          adapted.push(value);
+        }
+      }
+      return adapted;
+    });
+
+    return { offset, data, gaps, originalLength };
   }
 
-  // 多维结果适配器 - 处理返回二维数组的函数（如MACD、BBANDS等）
-  function adaptMultiResult(
-    result: number[][],
-    originalLength: number,
-    lineIndex: number = 0
-  ): (number | null)[] {
-    const adapted: (number | null)[] = [];
+  // 结果适配器 - 指标包的结果比输入短一个预热期，按预热期长度对齐回原始位置
+  // 0是有效结果予以保留，NaN和无穷大表示无法计算，转换为空值
+  function adaptResult(result: number[], inputs: AdaptedInputs): (number | null)[] {
+    const adapted: (number | null)[] = new Array(inputs.originalLength).fill(null);
+    const warmup = inputs.originalLength - inputs.offset - result.length;
 
-    if (result.length === 0 || result[lineIndex].length === 0) {
-      return new Array(originalLength).fill(null);
-    }
-
-    // 指标包的结果通常比原始数据短，需要填充前面的null值
-    const diff = originalLength - result[lineIndex].length;
-    for (let i = 0; i < diff; i++) {
-      adapted.push(null);
-    }
-
-    // 添加有效结果
-    for (const value of result[lineIndex]) {
-      adapted.push(value === 0 || isNaN(value) ? null : value);
-    }
+    result.forEach((value, i) => {
+      const index = inputs.offset + warmup + i;
+      adapted[index] = inputs.gaps[index] || !Number.isFinite(value) ? null : value;
+    });
 
     return adapted;
   }
 
-  // 注册主要技术指标函数
-
-  // 简单移动平均
-  functionRegistry.registerFunction('SMA', (args) => {
-    const [dataArg, periodArg] = args;
-    const data = adaptData(dataArg);
-    const period = periodArg[0] || 20;
-
+  // 调用指标包计算，出错时抛出带指标名称的错误，由求值器定位到函数调用处
+  function runIndicator<T>(name: string, compute: () => T): T {
     try {
-      const result = indicators.sma(data, period);
-      return adaptResult(result, dataArg.length);
+      return compute();
     } catch (error) {
-      console.error('SMA计算错误:', error);
-      return dataArg.map(() => null);
+      throw new Error(`${name} calculation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-  });
+  }
 
-  // 指数移动平均
-  functionRegistry.registerFunction('EMA', (args) => {
-    const [dataArg, periodArg] = args;
-    const data = adaptData(dataArg);
-    const period = periodArg[0] || 12;
+  // 在去掉前导空值的输入上计算单输出指标
+  function computeSeries(
+    name: string,
+    inputs: (number | null)[][],
+    compute: (data: number[][]) => number[]
+  ): (number | null)[] {
+    const adapted = adaptData(inputs);
+    if (adapted.data[0].length === 0) {
+      return new Array(adapted.originalLength).fill(null);
+    }
+    return adaptResult(runIndicator(name, () => compute(adapted.data)), adapted);
+  }
 
-    try {
-      const result = indicators.ema(data, period);
-      return adaptResult(result, dataArg.length);
-    } catch (error) {
-      console.error('EMA计算错误:', error);
-      return dataArg.map(() => null);
+  // 在去掉前导空值的输入上计算多输出指标，names[i]对应指标包结果的第lineIndices[i]条
+  function computeOutputs(
+    name: string,
+    inputs: (number | null)[][],
+    compute: (data: number[][]) => number[][],
+    names: string[],
+    lineIndices: number[]
+  ): MultiSeriesResult {
+    const adapted = adaptData(inputs);
+    const outputs: MultiSeriesResult = {};
+    if (adapted.data[0].length === 0) {
+      for (const output of names) {
+        outputs[output] = new Array(adapted.originalLength).fill(null);
+      }
+      return outputs;
     }
-  });
+    const result = runIndicator(name, () => compute(adapted.data));
+    names.forEach((output, i) => {
+      outputs[output] = adaptResult(result[lineIndices[i]] ?? [], adapted);
+    });
+    return outputs;
+  }
+
+  // 注册主要技术指标函数
+  // SMA、EMA使用通达信语义，由DefaultFunctionRegistry原生实现
 
   // 相对强弱指标
   functionRegistry.registerFunction('RSI', (args) => {
     const [dataArg, periodArg] = args;
-    const data = adaptData(dataArg);
     const period = periodArg[0] || 14;
 
-    try {
-      const result = indicators.rsi(data, period);
-      return adaptResult(result, dataArg.length);
-    } catch (error) {
-      console.error('RSI计算错误:', error);
-      return dataArg.map(() => null);
-    }
+    return computeSeries('RSI', [dataArg], ([data]) => indicators.rsi(data, period));
+  }, {
+    params: [
+      { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 14, description: '周期' }
+    ],
+    returns: '相对强弱指标值',
+    category: FunctionCategory.Indicator,
+    description: '相对强弱指标',
+    descriptionEn: 'Relative strength index'
   });
 
   // MACD指标
-  functionRegistry.registerFunction('MACD', (args) => {
+  registerMultiOutputFunction(functionRegistry, 'MACD', (args) => {
     const [dataArg, fastArg, slowArg, signalArg] = args;
-    const data = adaptData(dataArg);
     const fastPeriod = fastArg[0] || 12;
     const slowPeriod = slowArg[0] || 26;
     const signalPeriod = signalArg[0] || 9;
 
-    try {
-      // MACD函数返回包含[MACD线, 信号线, 柱状图]的三维数组
-      const result = indicators.macd(data, fastPeriod, slowPeriod, signalPeriod);
-      // 这里我们只返回MACD线（索引0）
-      return adaptMultiResult(result, dataArg.length, 0);
-    } catch (error) {
-      console.error('MACD计算错误:', error);
-      return dataArg.map(() => null);
-    }
+    // MACD函数返回[MACD线, 信号线, 柱状图]
+    return computeOutputs(
+      'MACD',
+      [dataArg],
+      ([data]) => indicators.macd(data, fastPeriod, slowPeriod, signalPeriod),
+      MACD_OUTPUTS,
+      [0, 1, 2]
+    );
+  }, {
+    params: [
+      { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      { name: 'SHORT', kind: ParameterKind.Constant, defaultValue: 12, description: '快线周期' },
+      { name: 'LONG', kind: ParameterKind.Constant, defaultValue: 26, description: '慢线周期' },
+      { name: 'MID', kind: ParameterKind.Constant, defaultValue: 9, description: '信号线周期' }
+    ],
+    returns: 'DIF（快慢线差）、DEA（信号线）、HIST（DIF-DEA），默认为DIF',
+    category: FunctionCategory.Indicator,
+    description: 'MACD指标',
+    descriptionEn: 'Moving average convergence divergence',
+    outputs: MACD_OUTPUTS
   });
 
   // 布林带指标
-  functionRegistry.registerFunction('BBANDS', (args) => {
+  registerMultiOutputFunction(functionRegistry, 'BBANDS', (args) => {
     const [dataArg, periodArg, stdDevArg] = args;
-    const data = adaptData(dataArg);
     const period = periodArg[0] || 20;
     const stdDev = stdDevArg[0] || 2;
 
-    try {
-      // 布林带返回[上轨, 中轨, 下轨]的三维数组
-      const result = indicators.bbands(data, period, stdDev);
-      // 这里我们只返回中间线（索引1）
-      return adaptMultiResult(result, dataArg.length, 1);
-    } catch (error) {
-      console.error('BBANDS计算错误:', error);
-      return dataArg.map(() => null);
-    }
+    // 布林带返回[下轨, 中轨, 上轨]
+    return computeOutputs(
+      'BBANDS',
+      [dataArg],
+      ([data]) => indicators.bbands(data, period, stdDev),
+      BBANDS_OUTPUTS,
+      [1, 2, 0]
+    );
+  }, {
+    params: [
+      { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 20, description: '周期' },
+      { name: 'K', kind: ParameterKind.Constant, defaultValue: 2, description: '标准差倍数' }
+    ],
+    returns: 'MIDDLE（中轨）、UPPER（上轨）、LOWER（下轨），默认为中轨',
+    category: FunctionCategory.Indicator,
+    description: '布林带',
+    descriptionEn: 'Bollinger bands',
+    outputs: BBANDS_OUTPUTS
   });
 
   // 动量指标
   functionRegistry.registerFunction('MOM', (args) => {
     const [dataArg, periodArg] = args;
-    const data = adaptData(dataArg);
     const period = periodArg[0] || 10;
 
-    try {
-      const result = indicators.mom(data, period);
-      return adaptResult(result, dataArg.length);
-    } catch (error) {
-      console.error('MOM计算错误:', error);
-      return dataArg.map(() => null);
-    }
+    return computeSeries('MOM', [dataArg], ([data]) => indicators.mom(data, period));
+  }, {
+    params: [
+      { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 10, description: '周期' }
+    ],
+    returns: 'X与N周期前的差值',
+    category: FunctionCategory.Indicator,
+    description: '动量指标',
+    descriptionEn: 'Momentum'
   });
 
   // 随机指标
-  functionRegistry.registerFunction('STOCH', (args) => {
+  registerMultiOutputFunction(functionRegistry, 'STOCH', (args) => {
     const [highArg, lowArg, closeArg, kPeriodArg, dPeriodArg] = args;
-    const high = adaptData(highArg);
-    const low = adaptData(lowArg);
-    const close = adaptData(closeArg);
     const kPeriod = kPeriodArg[0] || 14;
     const dPeriod = dPeriodArg[0] || 3;
 
-    try {
-      // STOCH函数需要6个参数：high, low, close, kPeriod, dPeriod, slowKPeriod
-      // 这里我们使用dPeriod作为slowKPeriod
-      const result = indicators.stoch(high, low, close, kPeriod, dPeriod, dPeriod);
-      return adaptMultiResult(result, closeArg.length, 0); // 返回K值
-    } catch (error) {
-      console.error('STOCH计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    // STOCH函数需要6个参数：high, low, close, kPeriod, dPeriod, slowKPeriod
+    // 这里我们使用dPeriod作为slowKPeriod
+    return computeOutputs(
+      'STOCH',
+      [highArg, lowArg, closeArg],
+      ([high, low, close]) => indicators.stoch(high, low, close, kPeriod, dPeriod, dPeriod),
+      STOCH_OUTPUTS,
+      [0, 1]
+    );
+  }, {
+    params: [
+      { name: 'HIGH', kind: ParameterKind.Series, description: '最高价序列' },
+      { name: 'LOW', kind: ParameterKind.Series, description: '最低价序列' },
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'KPERIOD', kind: ParameterKind.Constant, defaultValue: 14, description: 'K值周期' },
+      { name: 'DPERIOD', kind: ParameterKind.Constant, defaultValue: 3, description: 'D值周期' }
+    ],
+    returns: 'K值、D值，默认为K值',
+    category: FunctionCategory.Indicator,
+    description: '随机指标',
+    descriptionEn: 'Stochastic oscillator',
+    outputs: STOCH_OUTPUTS
   });
 
   // 商品通道指标
   functionRegistry.registerFunction('CCI', (args) => {
     const [highArg, lowArg, closeArg, periodArg] = args;
-    const high = adaptData(highArg);
-    const low = adaptData(lowArg);
-    const close = adaptData(closeArg);
     const period = periodArg[0] || 20;
 
-    try {
-      const result = indicators.cci(high, low, close, period);
-      return adaptResult(result, closeArg.length);
-    } catch (error) {
-      console.error('CCI计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    return computeSeries('CCI', [highArg, lowArg, closeArg], ([high, low, close]) =>
+      indicators.cci(high, low, close, period)
+    );
+  }, {
+    params: [
+      { name: 'HIGH', kind: ParameterKind.Series, description: '最高价序列' },
+      { name: 'LOW', kind: ParameterKind.Series, description: '最低价序列' },
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 20, description: '周期' }
+    ],
+    returns: '商品通道指标值',
+    category: FunctionCategory.Indicator,
+    description: '商品通道指标',
+    descriptionEn: 'Commodity channel index'
   });
 
   // 威廉指标
   functionRegistry.registerFunction('WILLR', (args) => {
     const [highArg, lowArg, closeArg, periodArg] = args;
-    const high = adaptData(highArg);
-    const low = adaptData(lowArg);
-    const close = adaptData(closeArg);
     const period = periodArg[0] || 14;
 
-    try {
-      const result = indicators.willr(high, low, close, period);
-      return adaptResult(result, closeArg.length);
-    } catch (error) {
-      console.error('WILLR计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    return computeSeries('WILLR', [highArg, lowArg, closeArg], ([high, low, close]) =>
+      indicators.willr(high, low, close, period)
+    );
+  }, {
+    params: [
+      { name: 'HIGH', kind: ParameterKind.Series, description: '最高价序列' },
+      { name: 'LOW', kind: ParameterKind.Series, description: '最低价序列' },
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 14, description: '周期' }
+    ],
+    returns: '威廉指标值',
+    category: FunctionCategory.Indicator,
+    description: '威廉指标',
+    descriptionEn: 'Williams %R'
   });
 
   // 平均真实范围
   functionRegistry.registerFunction('ATR', (args) => {
     const [highArg, lowArg, closeArg, periodArg] = args;
-    const high = adaptData(highArg);
-    const low = adaptData(lowArg);
-    const close = adaptData(closeArg);
     const period = periodArg[0] || 14;
 
-    try {
-      const result = indicators.atr(high, low, close, period);
-      return adaptResult(result, closeArg.length);
-    } catch (error) {
-      console.error('ATR计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    return computeSeries('ATR', [highArg, lowArg, closeArg], ([high, low, close]) =>
+      indicators.atr(high, low, close, period)
+    );
+  }, {
+    params: [
+      { name: 'HIGH', kind: ParameterKind.Series, description: '最高价序列' },
+      { name: 'LOW', kind: ParameterKind.Series, description: '最低价序列' },
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 14, description: '周期' }
+    ],
+    returns: '平均真实波幅',
+    category: FunctionCategory.Indicator,
+    description: '平均真实范围',
+    descriptionEn: 'Average true range'
   });
 
   // 成交量移动平均
   functionRegistry.registerFunction('VWMA', (args) => {
     const [closeArg, volumeArg, periodArg] = args;
-    const close = adaptData(closeArg);
-    const volume = adaptData(volumeArg);
     const period = periodArg[0] || 20;
 
-    try {
-      const result = indicators.vwma(close, volume, period);
-      return adaptResult(result, closeArg.length);
-    } catch (error) {
-      console.error('VWMA计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    return computeSeries('VWMA', [closeArg, volumeArg], ([close, volume]) =>
+      indicators.vwma(close, volume, period)
+    );
+  }, {
+    params: [
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'VOLUME', kind: ParameterKind.Series, description: '成交量序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 20, description: '周期' }
+    ],
+    returns: '成交量加权移动平均',
+    category: FunctionCategory.Indicator,
+    description: '成交量移动平均',
+    descriptionEn: 'Volume weighted moving average'
   });
 
   // 顺势指标
   functionRegistry.registerFunction('ADX', (args) => {
     const [highArg, lowArg, closeArg, periodArg] = args;
-    const high = adaptData(highArg);
-    const low = adaptData(lowArg);
-    const close = adaptData(closeArg);
     const period = periodArg[0] || 14;
 
-    try {
-      const result = indicators.adx(high, low, period);
-      return adaptResult(result, closeArg.length);
-    } catch (error) {
-      console.error('ADX计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    return computeSeries('ADX', [highArg, lowArg], ([high, low]) => indicators.adx(high, low, period));
+  }, {
+    params: [
+      { name: 'HIGH', kind: ParameterKind.Series, description: '最高价序列' },
+      { name: 'LOW', kind: ParameterKind.Series, description: '最低价序列' },
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 14, description: '周期' }
+    ],
+    returns: '平均趋向指标值',
+    category: FunctionCategory.Indicator,
+    description: '顺势指标',
+    descriptionEn: 'Average directional index'
   });
 
   // 能量潮指标
   functionRegistry.registerFunction('OBV', (args) => {
     const [closeArg, volumeArg] = args;
-    const close = adaptData(closeArg);
-    const volume = adaptData(volumeArg);
 
-    try {
-      const result = indicators.obv(close, volume);
-      return adaptResult(result, closeArg.length);
-    } catch (error) {
-      console.error('OBV计算错误:', error);
-      return closeArg.map(() => null);
-    }
+    return computeSeries('OBV', [closeArg, volumeArg], ([close, volume]) =>
+      indicators.obv(close, volume)
+    );
+  }, {
+    params: [
+      { name: 'CLOSE', kind: ParameterKind.Series, description: '收盘价序列' },
+      { name: 'VOLUME', kind: ParameterKind.Series, description: '成交量序列' }
+    ],
+    returns: '能量潮累计值',
+    category: FunctionCategory.Indicator,
+    description: '能量潮指标',
+    descriptionEn: 'On balance volume'
   });
 
   // 价格变动率
   functionRegistry.registerFunction('ROC', (args) => {
     const [dataArg, periodArg] = args;
-    const data = adaptData(dataArg);
     const period = periodArg[0] || 12;
 
-    try {
-      const result = indicators.roc(data, period);
-      return adaptResult(result, dataArg.length);
-    } catch (error) {
-      console.error('ROC计算错误:', error);
-      return dataArg.map(() => null);
-    }
+    return computeSeries('ROC', [dataArg], ([data]) => indicators.roc(data, period));
+  }, {
+    params: [
+      { name: 'X', kind: ParameterKind.Series, description: '数据序列' },
+      { name: 'N', kind: ParameterKind.Constant, defaultValue: 12, description: '周期' }
+    ],
+    returns: 'X相对N周期前的变动率',
+    category: FunctionCategory.Indicator,
+    description: '价格变动率',
+    descriptionEn: 'Rate of change'
   });
 
-  // 价格变动率
+  // 任意方向交叉
   functionRegistry.registerFunction('CROSSOVER', (args) => {
     const [dataArg1, dataArg2] = args;
-    const data1 = adaptData(dataArg1);
-    const data2 = adaptData(dataArg2);
 
-    try {
-      const result = indicators.crossany(data1, data2);
-      return adaptResult(result.map((e) => (e ? 1 : 0)),data1.length);
-    } catch (error) {
-      console.error('CROSSOVER计算错误:', error);
-      return dataArg1.map(() => null);
-    }
+    return computeSeries('CROSSOVER', [dataArg1, dataArg2], ([data1, data2]) =>
+      indicators.crossany(data1, data2).map((crossed) => (crossed ? 1 : 0))
+    );
+  }, {
+    params: [
+      { name: 'A', kind: ParameterKind.Series, description: '序列A' },
+      { name: 'B', kind: ParameterKind.Series, description: '序列B' }
+    ],
+    returns: 'A与B发生交叉时为1，否则为0',
+    category: FunctionCategory.Indicator,
+    description: '交叉判断（任意方向）',
+    descriptionEn: '1 when A and B cross in either direction'
   });
 
   console.log(
-    '📊 可用的技术指标函数: SMA, EMA, RSI, MACD, BBANDS, MOM, STOCH, CCI, WILLR, ATR, VWMA, ADX, OBV, ROC, CROSSOVER'
+    '📊 可用的技术指标函数: RSI, MACD, BBANDS, MOM, STOCH, CCI, WILLR, ATR, VWMA, ADX, OBV, ROC, CROSSOVER'
   );
 }
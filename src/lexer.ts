@@ -1,14 +1,32 @@
 // 词法分析器，对应Rust的lexer.rs
-import { Token, TokenType, createToken, lookupKeyword } from './token';
+import { Token, TokenType, createToken, lookupKeyword, SourcePosition } from './token';
+import { Comment } from './ast';
+
+// 全角标点映射表（从通达信客户端或文档中复制的公式经常包含全角符号）
+const FULL_WIDTH_PUNCTUATION: Record<string, string> = {
+  '（': '(',
+  '）': ')',
+  '，': ',',
+  '；': ';',
+  '：': ':',
+  '＋': '+',
+  '－': '-',
+  '＊': '*',
+  '／': '/',
+  '＞': '>',
+  '＜': '<',
+  '＝': '=',
+};
 
 export class Lexer {
   private input: string;
   private position: number;
   private line: number;
   private column: number;
+  private comments: Comment[] = [];
 
   constructor(input: string) {
-    this.input = input.replace(/;/g, '');
+    this.input = input;
     this.position = 0;
     this.line = 1;
     this.column = 1;
@@ -19,10 +37,10 @@ export class Lexer {
     this.skipWhitespace();
 
     if (this.isAtEnd()) {
-      return createToken(TokenType.Eof, '', this.line, this.column);
+      return createToken(TokenType.Eof, '', this.line, this.column, this.position);
     }
 
-    const char = this.peek();
+    const char = this.normalizeChar(this.peek());
 
     // 单字符Token
     switch (char) {
@@ -32,6 +50,8 @@ export class Lexer {
         return this.consumeCharToken(TokenType.RParen);
       case ',':
         return this.consumeCharToken(TokenType.Comma);
+      case '.':
+        return this.consumeCharToken(TokenType.Dot);
       case ';':
         return this.consumeCharToken(TokenType.Semicolon);
       case '+':
@@ -69,15 +89,15 @@ export class Lexer {
       return this.readIdentifier();
     }
 
-    // 非法字符
-    return createToken(TokenType.Illegal, char, this.line, this.column);
+    // 非法字符（消耗该字符，以便语法分析器能够跳过它继续分析）
+    return this.consumeCharToken(TokenType.Illegal);
   }
 
   // 跳过空白字符（但不跳过换行符）
   private skipWhitespace(): void {
     while (!this.isAtEnd()) {
       const char = this.peek();
-      if (char === ' ' || char === '\t' || char === '\r') {
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\u3000') {
         this.advance();
       } else {
         break;
@@ -85,77 +105,90 @@ export class Lexer {
     }
   }
 
-  // 跳过注释（以{开始，以}结束）
+  // 获取已扫描到的注释（按出现顺序）
+  getComments(): Comment[] {
+    return this.comments;
+  }
+
+  // 跳过注释（以{开始，以}结束），并记录注释内容供格式化输出使用
   private skipComment(): void {
+    const start = this.currentPosition();
+    let text = '';
+
+    this.advance(); // 跳过 {
     while (!this.isAtEnd() && this.peek() !== '}') {
-      if (this.peek() === '\n') {
-        this.line++;
-        this.column = 1;
-      }
-      this.advance();
+      text += this.advance();
     }
     if (!this.isAtEnd()) {
       this.advance(); // 跳过 }
     }
+
+    this.comments.push({ text, span: { start, end: this.currentPosition() } });
   }
 
   // 处理冒号（可能为:或:=）
   private handleColon(): Token {
-    if (this.peekNext() === '=') {
+    if (this.normalizeChar(this.peekNext()) === '=') {
       const startColumn = this.column;
+      const startOffset = this.position;
       const lexeme = this.advance() + this.advance();
-      return createToken(TokenType.ColonAssign, lexeme, this.line, startColumn);
+      return createToken(TokenType.ColonAssign, lexeme, this.line, startColumn, startOffset);
     }
     return this.consumeCharToken(TokenType.Colon);
   }
 
   // 处理大于号（可能为>或>=）
   private handleGreater(): Token {
-    if (this.peekNext() === '=') {
+    if (this.normalizeChar(this.peekNext()) === '=') {
       const startColumn = this.column;
+      const startOffset = this.position;
       const lexeme = this.advance() + this.advance();
-      return createToken(TokenType.GtEq, lexeme, this.line, startColumn);
+      return createToken(TokenType.GtEq, lexeme, this.line, startColumn, startOffset);
     }
     return this.consumeCharToken(TokenType.Gt);
   }
 
   // 处理小于号（可能为<或<=或<>）
   private handleLess(): Token {
-    if (this.peekNext() === '=') {
+    if (this.normalizeChar(this.peekNext()) === '=') {
       const startColumn = this.column;
+      const startOffset = this.position;
       const lexeme = this.advance() + this.advance();
-      return createToken(TokenType.LtEq, lexeme, this.line, startColumn);
+      return createToken(TokenType.LtEq, lexeme, this.line, startColumn, startOffset);
     }
-    if (this.peekNext() === '>') {
+    if (this.normalizeChar(this.peekNext()) === '>') {
       const startColumn = this.column;
+      const startOffset = this.position;
       const lexeme = this.advance() + this.advance();
-      return createToken(TokenType.NotEq, lexeme, this.line, startColumn);
+      return createToken(TokenType.NotEq, lexeme, this.line, startColumn, startOffset);
     }
     return this.consumeCharToken(TokenType.Lt);
   }
 
   // 处理等号（可能为=或==）
   private handleEqual(): Token {
-    if (this.peekNext() === '=') {
+    if (this.normalizeChar(this.peekNext()) === '=') {
       const startColumn = this.column;
+      const startOffset = this.position;
       const lexeme = this.advance() + this.advance();
-      return createToken(TokenType.EqEq, lexeme, this.line, startColumn);
+      return createToken(TokenType.EqEq, lexeme, this.line, startColumn, startOffset);
     }
     return this.consumeCharToken(TokenType.EqEq);
   }
 
   // 处理换行符
   private handleNewline(): Token {
+    const startLine = this.line;
     const startColumn = this.column;
+    const startOffset = this.position;
     const char = this.advance();
-    this.line++;
-    this.column = 1;
-    return createToken(TokenType.Newline, char, this.line, startColumn);
+    return createToken(TokenType.Newline, char, startLine, startColumn, startOffset);
   }
 
   // 读取数字
   private readNumber(): Token {
     const startColumn = this.column;
+    const startOffset = this.position;
     let lexeme = '';
 
     // 整数部分
@@ -171,12 +204,13 @@ export class Lexer {
       }
     }
 
-    return createToken(TokenType.Number, lexeme, this.line, startColumn);
+    return createToken(TokenType.Number, lexeme, this.line, startColumn, startOffset);
   }
 
   // 读取标识符
   private readIdentifier(): Token {
     const startColumn = this.column;
+    const startOffset = this.position;
     let lexeme = '';
 
     while (!this.isAtEnd() && this.isAlphaNumeric(this.peek())) {
@@ -184,37 +218,36 @@ export class Lexer {
     }
 
     const tokenType = lookupKeyword(lexeme);
-    return createToken(tokenType, lexeme, this.line, startColumn);
+    return createToken(tokenType, lexeme, this.line, startColumn, startOffset);
   }
 
   // 读取字符串
   private readString(): Token {
+    const startLine = this.line;
     const startColumn = this.column;
+    const startOffset = this.position;
     let lexeme = '';
     
     this.advance(); // 跳过开头引号
     
     while (!this.isAtEnd() && this.peek() !== '"') {
-      if (this.peek() === '\n') {
-        this.line++;
-        this.column = 1;
-      }
       lexeme += this.advance();
     }
     
     if (this.isAtEnd()) {
-      return createToken(TokenType.Illegal, lexeme, this.line, startColumn);
+      return createToken(TokenType.Illegal, lexeme, startLine, startColumn, startOffset, this.position - startOffset);
     }
     
     this.advance(); // 跳过结尾引号
-    return createToken(TokenType.String, lexeme, this.line, startColumn);
+    return createToken(TokenType.String, lexeme, startLine, startColumn, startOffset, this.position - startOffset);
   }
 
   // 消耗单个字符的Token
   private consumeCharToken(tokenType: TokenType): Token {
     const startColumn = this.column;
+    const startOffset = this.position;
     const char = this.advance();
-    return createToken(tokenType, char, this.line, startColumn);
+    return createToken(tokenType, char, this.line, startColumn, startOffset);
   }
 
   // 辅助方法
@@ -232,10 +265,19 @@ export class Lexer {
     if (this.isAtEnd()) return '\0';
     const char = this.input[this.position];
     this.position++;
-    this.column++;
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
     return char;
   }
 
+  private currentPosition(): SourcePosition {
+    return { offset: this.position, line: this.line, column: this.column };
+  }
+
   private isAtEnd(): boolean {
     return this.position >= this.input.length;
   }
@@ -245,7 +287,17 @@ export class Lexer {
   }
 
   private isAlpha(char: string): boolean {
-    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z') || char === '_';
+    return (char >= 'a' && char <= 'z') || (char >= 'A' && char <= 'Z') || char === '_' || this.isCjk(char);
+  }
+
+  // 中文标识符（CJK统一汉字及扩展A区）
+  private isCjk(char: string): boolean {
+    return (char >= '\u4e00' && char <= '\u9fff') || (char >= '\u3400' && char <= '\u4dbf');
+  }
+
+  // 将全角标点归一化为对应的ASCII字符，其余字符原样返回
+  private normalizeChar(char: string): string {
+    return FULL_WIDTH_PUNCTUATION[char] ?? char;
   }
 
   private isAlphaNumeric(char: string): boolean {
@@ -1,9 +1,11 @@
 // 语法分析器，对应Rust的parser.rs
-import { Token, TokenType } from './token';
+import { Token, TokenType, getTokenEnd, getTokenStart } from './token';
 import {
   Expr,
   Statement,
   Formula,
+  FormulaParam,
+  Comment,
   createLiteralExpr,
   createVariableExpr,
   createUnaryOpExpr,
@@ -13,10 +15,46 @@ import {
   createAssignmentStatement,
   createOutputStatement,
   createFormula,
+  createFormulaParam,
   UnaryOperator,
   BinaryOperator,
+  SourceSpan,
 } from './ast';
 import { Lexer } from './lexer';
+import { PlotStyle, parsePlotStyle } from './plot-style';
+import {
+  Diagnostic,
+  DiagnosticCode,
+  createDiagnostic,
+  describeExpected,
+  describeToken,
+} from './diagnostics';
+
+// 语法错误，携带可定位的诊断信息
+export class ParseError extends Error {
+  readonly diagnostic: Diagnostic;
+
+  constructor(message: string, diagnostic: Diagnostic) {
+    super(message);
+    this.name = 'ParseError';
+    this.diagnostic = diagnostic;
+  }
+}
+
+// 带诊断信息的解析结果
+export interface ParseResult {
+  formula: Formula;          // 成功解析的语句组成的（可能不完整的）公式
+  diagnostics: Diagnostic[];
+}
+
+// 表达式起始位置可以出现的Token
+const EXPRESSION_START_TOKENS: TokenType[] = [
+  TokenType.Number,
+  TokenType.Identifier,
+  TokenType.LParen,
+  TokenType.Minus,
+  TokenType.Not,
+];
 
 interface Peekable<T> {
   next(): IteratorResult<T>;
@@ -58,19 +96,40 @@ class LexerIterator implements Peekable<Token> {
 export class Parser {
   private lexer: Peekable<Token>;
   private currentToken: Token | null = null;
+  private lastToken: Token | null = null;
+  private commentsFunction?: () => Comment[];
 
-  constructor(lexerFunction: () => Token) {
+  constructor(lexerFunction: () => Token, commentsFunction?: () => Comment[]) {
     this.lexer = new LexerIterator(lexerFunction);
+    this.commentsFunction = commentsFunction;
     this.advance();
   }
 
-  // 解析整个公式
+  // 解析整个公式，遇到第一个语法错误时抛出ParseError
   parseFormula(): Formula {
+    return this.parseStatements((error) => {
+      throw error;
+    });
+  }
+
+  // 解析整个公式，收集所有语法错误并在语句边界处恢复
+  parseFormulaWithDiagnostics(): ParseResult {
+    const diagnostics: Diagnostic[] = [];
+    const formula = this.parseStatements((error) => {
+      diagnostics.push(error.diagnostic);
+      this.synchronize();
+    });
+    return { formula, diagnostics };
+  }
+
+  // 解析语句序列，语法错误交由onError处理
+  private parseStatements(onError: (error: ParseError) => void): Formula {
     const statements: Statement[] = [];
+    const params: FormulaParam[] = [];
 
     while (this.currentToken !== null) {
-      // 跳过连续的空行
-      while (this.currentToken && this.currentToken.tokenType.toString() === TokenType.Newline) {
+      // 跳过连续的空行和空语句（分号与换行符等价）
+      while (this.currentToken && this.isStatementTerminator(this.currentToken)) {
         this.advance();
       }
       
@@ -79,16 +138,51 @@ export class Parser {
         break;
       }
       
-      const statement = this.parseStatement();
-      statements.push(statement);
+      try {
+        if (this.isParamDeclaration()) {
+          params.push(this.parseParamDeclaration());
+        } else {
+          statements.push(this.parseStatement());
+        }
+        this.expectStatementEnd();
+      } catch (error) {
+        if (!(error instanceof ParseError)) {
+          throw error;
+        }
+        onError(error);
+      }
       
-      // 语句结束后，跳过换行符（如果存在）
-      if (this.currentToken && this.currentToken.tokenType.toString() === TokenType.Newline) {
+      // 语句结束后，跳过语句结束符（分号或换行符，如果存在）
+      if (this.currentToken && this.isStatementTerminator(this.currentToken)) {
         this.advance();
       }
     }
 
-    return createFormula(statements);
+    return createFormula(
+      statements,
+      this.commentsFunction?.(),
+      params.length > 0 ? params : undefined
+    );
+  }
+
+  // 语句之后必须是分号、换行符或文件结束，如 A: C 1 缺少分隔符
+  private expectStatementEnd(): void {
+    const token = this.currentToken;
+    if (!token || token.tokenType === TokenType.Eof || this.isStatementTerminator(token)) {
+      return;
+    }
+    throw this.unexpectedTokenError(
+      `Expected end of statement but got ${token.tokenType} at position ${token.line}:${token.column}`,
+      token,
+      [TokenType.Semicolon, TokenType.Newline, TokenType.Eof]
+    );
+  }
+
+  // 错误恢复：跳过剩余Token直到语句结束符或文件结束
+  private synchronize(): void {
+    while (this.currentToken && !this.isStatementTerminator(this.currentToken)) {
+      this.advance();
+    }
   }
 
   // 解析单个语句
@@ -114,41 +208,88 @@ export class Parser {
     return this.parseAnonymousOutputStatement();
   }
 
+  // 参数声明以PARAM开头（不区分大小写），后面紧跟参数名
+  private isParamDeclaration(): boolean {
+    return (
+      this.currentToken?.tokenType === TokenType.Identifier &&
+      this.currentToken.lexeme.toUpperCase() === 'PARAM' &&
+      this.peekToken()?.tokenType === TokenType.Identifier
+    );
+  }
+
+  // 解析参数声明：PARAM N(默认值[, 最小值, 最大值[, 步长]])
+  private parseParamDeclaration(): FormulaParam {
+    const keywordToken = this.expectToken(TokenType.Identifier);
+    const nameToken = this.expectToken(TokenType.Identifier);
+    this.expectToken(TokenType.LParen);
+    const values = [this.parseSignedNumber()];
+    while (this.currentToken?.tokenType === TokenType.Comma && values.length < 4) {
+      this.advance();
+      values.push(this.parseSignedNumber());
+    }
+    this.expectToken(TokenType.RParen);
+
+    const [defaultValue, min, max, step] = values;
+    return createFormulaParam(
+      nameToken.lexeme,
+      defaultValue,
+      {
+        ...(min !== undefined ? { min } : {}),
+        ...(max !== undefined ? { max } : {}),
+        ...(step !== undefined ? { step } : {}),
+      },
+      this.spanFrom(keywordToken)
+    );
+  }
+
+  // 参数声明中的数值，允许负号
+  private parseSignedNumber(): number {
+    const negative = this.currentToken?.tokenType === TokenType.Minus;
+    if (negative) {
+      this.advance();
+    }
+    const value = parseFloat(this.expectToken(TokenType.Number).lexeme);
+    return negative ? -value : value;
+  }
+
   // 解析赋值语句
   private parseAssignmentStatement(): Statement {
-    const variable = this.expectToken(TokenType.Identifier).lexeme;
+    const variableToken = this.expectToken(TokenType.Identifier);
     this.expectToken(TokenType.ColonAssign);
     const expr = this.parseExpression(0);
-    // 不需要分号，通过换行或文件结束来分隔语句
-    return createAssignmentStatement(variable, expr);
+    // 语句通过分号、换行或文件结束来分隔
+    return createAssignmentStatement(variableToken.lexeme, expr, this.spanFrom(variableToken));
   }
 
   // 解析命名输出语句
   private parseNamedOutputStatement(): Statement {
-    const name = this.expectToken(TokenType.Identifier).lexeme;
+    const nameToken = this.expectToken(TokenType.Identifier);
     this.expectToken(TokenType.Colon);
     const expr = this.parseExpression(0);
     const styles = this.parsePlotStyles();
-    // 不需要分号，通过换行或文件结束来分隔语句
-    return createOutputStatement(name, expr, styles);
+    // 语句通过分号、换行或文件结束来分隔
+    return createOutputStatement(nameToken.lexeme, expr, styles, this.spanFrom(nameToken));
   }
 
   // 解析匿名输出语句
   private parseAnonymousOutputStatement(): Statement {
+    const startToken = this.currentToken!;
     const expr = this.parseExpression(0);
     const styles = this.parsePlotStyles();
-    // 不需要分号，通过换行或文件结束来分隔语句
-    return createOutputStatement(null, expr, styles);
+    // 语句通过分号、换行或文件结束来分隔
+    return createOutputStatement(null, expr, styles, this.spanFrom(startToken));
   }
 
-  // 解析绘图样式
-  private parsePlotStyles(): string[] {
-    const styles: string[] = [];
+  // 解析绘图样式，无法识别的样式保留名称，由静态检查器给出警告
+  private parsePlotStyles(): PlotStyle[] {
+    const styles: PlotStyle[] = [];
     
     while (this.currentToken?.tokenType === TokenType.Comma) {
       this.advance(); // 跳过逗号
       const styleToken = this.expectToken(TokenType.Identifier);
-      styles.push(styleToken.lexeme);
+      styles.push(
+        parsePlotStyle(styleToken.lexeme) ?? { type: 'Other', name: styleToken.lexeme.toUpperCase() }
+      );
     }
     
     return styles;
@@ -171,7 +312,7 @@ export class Parser {
       const right = this.parseExpression(rightBindingPower);
       const operator = this.getBinaryOperator(token.tokenType);
       
-      left = createBinaryOpExpr(left, operator, right);
+      left = createBinaryOpExpr(left, operator, right, this.spanBetween(left, right));
     }
 
     return left;
@@ -179,21 +320,24 @@ export class Parser {
 
   // 解析前缀表达式
   private parsePrefix(): Expr {
-    const token = this.currentToken!;
+    const token = this.currentToken;
+    if (!token) {
+      throw this.unexpectedEofError('Unexpected end of file', EXPRESSION_START_TOKENS);
+    }
 
     switch (token.tokenType) {
       case TokenType.Number:
         this.advance();
-        return createLiteralExpr(parseFloat(token.lexeme));
+        return createLiteralExpr(parseFloat(token.lexeme), this.spanFrom(token));
 
       case TokenType.If:
       case TokenType.Identifier: {
         const nextToken = this.peekToken();
-        if (nextToken?.tokenType === TokenType.LParen) {
+        if (nextToken?.tokenType === TokenType.LParen || nextToken?.tokenType === TokenType.Dot) {
           return this.parseFunctionCall(token.tokenType);
         }
         this.advance();
-        return createVariableExpr(token.lexeme);
+        return createVariableExpr(token.lexeme, this.spanFrom(token));
       }
 
       case TokenType.LParen:
@@ -204,18 +348,30 @@ export class Parser {
         return this.parseUnaryExpression();
 
       default:
-        throw new Error(`Unexpected token 【${token.tokenType} 】 at position  ${token.line}:${token.column}`);
+        throw this.unexpectedTokenError(
+          `Unexpected token 【${token.tokenType} 】 at position  ${token.line}:${token.column}`,
+          token,
+          EXPRESSION_START_TOKENS
+        );
     }
   }
 
   // 解析函数调用
   private parseFunctionCall(tokenType:TokenType): Expr {
-    const name = this.expectToken(tokenType).lexeme;
+    const nameToken = this.expectToken(tokenType);
+    const name = nameToken.lexeme;
+    
+    // 多输出函数的输出选择，如 MACD.DEA(C)
+    let component: string | undefined;
+    if (this.currentToken?.tokenType === TokenType.Dot) {
+      this.advance();
+      component = this.expectToken(TokenType.Identifier).lexeme;
+    }
     this.expectToken(TokenType.LParen);
     
     // 为IF函数特殊处理
-    if (name.toUpperCase() === 'IF') {
-      return this.parseIfFunction();
+    if (name.toUpperCase() === 'IF' && component === undefined) {
+      return this.parseIfFunction(nameToken);
     }
     
     const args: Expr[] = [];
@@ -230,11 +386,11 @@ export class Parser {
     }
     
     this.expectToken(TokenType.RParen);
-    return createFunctionCallExpr(name, args);
+    return createFunctionCallExpr(name, args, this.spanFrom(nameToken), component);
   }
 
   // 解析IF函数 (IF(条件, 真值, 假值))
-  private parseIfFunction(): Expr {
+  private parseIfFunction(nameToken: Token): Expr {
     const args: Expr[] = [];
     
     // 解析条件表达式
@@ -242,7 +398,7 @@ export class Parser {
     
     // 检查是否有逗号分隔符
     if (this.currentToken?.tokenType !== TokenType.Comma) {
-      throw new Error('IF函数需要逗号分隔条件表达式和真值');
+      throw this.missingTokenError('IF函数需要逗号分隔条件表达式和真值', TokenType.Comma);
     }
     this.advance(); // 跳过逗号
     
@@ -251,7 +407,7 @@ export class Parser {
     
     // 检查是否有第二个逗号分隔符
     if (this.currentToken?.tokenType !== TokenType.Comma) {
-      throw new Error('IF函数需要逗号分隔真值和假值');
+      throw this.missingTokenError('IF函数需要逗号分隔真值和假值', TokenType.Comma);
     }
     this.advance(); // 跳过逗号
     
@@ -259,15 +415,15 @@ export class Parser {
     args.push(this.parseExpression(0));
     
     this.expectToken(TokenType.RParen);
-    return createFunctionCallExpr('IF', args);
+    return createFunctionCallExpr('IF', args, this.spanFrom(nameToken));
   }
 
   // 解析括号分组表达式
   private parseGroupedExpression(): Expr {
-    this.expectToken(TokenType.LParen);
+    const startToken = this.expectToken(TokenType.LParen);
     const expr = this.parseExpression(0);
     this.expectToken(TokenType.RParen);
-    return createGroupedExpr(expr);
+    return createGroupedExpr(expr, this.spanFrom(startToken));
   }
 
   // 解析一元表达式
@@ -278,7 +434,7 @@ export class Parser {
     const operator = token.tokenType === TokenType.Minus ? UnaryOperator.Neg : UnaryOperator.Not;
     const operand = this.parseExpression(this.getPrefixBindingPower(token.tokenType));
     
-    return createUnaryOpExpr(operator, operand);
+    return createUnaryOpExpr(operator, operand, this.spanFrom(token));
   }
 
   // 获取中缀运算符的绑定强度
@@ -329,8 +485,31 @@ export class Parser {
     }
   }
 
+  // 从startToken开始到最后一个已消耗Token结束的源码区间
+  private spanFrom(startToken: Token): SourceSpan {
+    return {
+      start: getTokenStart(startToken),
+      end: getTokenEnd(this.lastToken ?? startToken),
+    };
+  }
+
+  // 二元表达式的源码区间：从左操作数开始到右操作数结束
+  private spanBetween(left: Expr, right: Expr): SourceSpan | undefined {
+    if (!left.span || !right.span) {
+      return undefined;
+    }
+    return { start: left.span.start, end: right.span.end };
+  }
+
   // 辅助方法
+  private isStatementTerminator(token: Token): boolean {
+    return token.tokenType === TokenType.Semicolon || token.tokenType === TokenType.Newline;
+  }
+
   private advance(): void {
+    if (this.currentToken) {
+      this.lastToken = this.currentToken;
+    }
     const result = this.lexer.next();
     this.currentToken = result.done ? null : result.value;
   }
@@ -344,20 +523,88 @@ export class Parser {
     const token = this.currentToken;
     
     if (!token) {
-      throw new Error(`Expected ${expectedType} but got end of file`);
+      throw this.unexpectedEofError(`Expected ${expectedType} but got end of file`, [expectedType]);
     }
     
     if (token.tokenType !== expectedType) {
-      throw new Error(`Expected ${expectedType} but got ${token.tokenType} at position ${token.line}:${token.column}`);
+      throw this.unexpectedTokenError(
+        `Expected ${expectedType} but got ${token.tokenType} at position ${token.line}:${token.column}`,
+        token,
+        [expectedType]
+      );
     }
     
     this.advance();
     return token;
   }
+
+  // 当前位置缺少指定Token（如IF函数的逗号）
+  private missingTokenError(message: string, expectedType: TokenType): ParseError {
+    if (!this.currentToken) {
+      return this.unexpectedEofError(message, [expectedType], message);
+    }
+    return this.unexpectedTokenError(message, this.currentToken, [expectedType], message);
+  }
+
+  // 遇到意外Token
+  private unexpectedTokenError(
+    message: string,
+    token: Token,
+    expected: TokenType[],
+    detail?: string
+  ): ParseError {
+    if (token.tokenType === TokenType.Illegal) {
+      return new ParseError(
+        message,
+        createDiagnostic(
+          DiagnosticCode.IllegalToken,
+          `${detail ? detail + '，' : ''}无法识别的${describeToken(token)}`,
+          getTokenStart(token),
+          getTokenEnd(token),
+          expected
+        )
+      );
+    }
+    const description = detail ?? `期望${describeExpected(expected)}`;
+    return new ParseError(
+      message,
+      createDiagnostic(
+        DiagnosticCode.UnexpectedToken,
+        `${description}，但遇到${describeToken(token)}`,
+        getTokenStart(token),
+        getTokenEnd(token),
+        expected
+      )
+    );
+  }
+
+  // 遇到意外的文件结束，位置指向最后一个Token之后
+  private unexpectedEofError(message: string, expected: TokenType[], detail?: string): ParseError {
+    const position = this.lastToken ? getTokenEnd(this.lastToken) : { offset: 0, line: 1, column: 1 };
+    const description = detail ?? `期望${describeExpected(expected)}`;
+    return new ParseError(
+      message,
+      createDiagnostic(
+        DiagnosticCode.UnexpectedEof,
+        `${description}，但已到达文件结束`,
+        position,
+        position,
+        expected
+      )
+    );
+  }
 }
 
 // 创建解析器实例
 export function createParser(input: string): Parser {
   const lexer = new Lexer(input);
-  return new Parser(() => lexer.nextToken());
+  return new Parser(
+    () => lexer.nextToken(),
+    () => lexer.getComments()
+  );
+}
+
+// 解析公式并返回全部语法诊断信息，不抛出语法错误
+export function parseWithDiagnostics(source: string): ParseResult {
+  return createParser(source).parseFormulaWithDiagnostics();
 }
@@ -0,0 +1,108 @@
+// 绘图样式：将输出语句后的 COLORRED、LINETHICK2、DOTLINE 等关键字解析为结构化的样式
+
+// 线型，未指定时按普通折线绘制
+export enum LineType {
+  DotLine = 'DotLine',       // DOTLINE 虚线
+  Stick = 'Stick',           // STICK 柱状线（从0到指标值）
+  ColorStick = 'ColorStick', // COLORSTICK 彩色柱状线（大于0为红，小于0为绿）
+  VolStick = 'VolStick',     // VOLSTICK 成交量柱（阳线红，阴线绿）
+  LineStick = 'LineStick',   // LINESTICK 同时画柱状线和折线
+  CrossDot = 'CrossDot',     // CROSSDOT 小叉线
+  CircleDot = 'CircleDot',   // CIRCLEDOT 小圆圈线
+  PointDot = 'PointDot',     // POINTDOT 小圆点线
+}
+
+// 显示控制
+export enum Visibility {
+  NoDraw = 'NoDraw', // NODRAW 不画线，只显示数值
+  NoText = 'NoText', // NOTEXT 画线，但不显示名称和数值
+}
+
+export interface RgbColor {
+  r: number; // 0-255
+  g: number;
+  b: number;
+}
+
+// name为样式在公式中的写法（大写），格式化输出时原样使用
+// 未建模的样式（如DRAWABOVE、LAYER2）为Other，只保留名称
+export type PlotStyle =
+  | { type: 'LineType'; name: string; lineType: LineType }
+  | { type: 'Color'; name: string; color: RgbColor }
+  | { type: 'Thickness'; name: string; thickness: number }
+  | { type: 'Visibility'; name: string; visibility: Visibility }
+  | { type: 'Other'; name: string };
+
+export type PlotStyleType = PlotStyle['type'];
+
+const LINE_TYPES: Record<string, LineType> = {
+  DOTLINE: LineType.DotLine,
+  STICK: LineType.Stick,
+  COLORSTICK: LineType.ColorStick,
+  VOLSTICK: LineType.VolStick,
+  LINESTICK: LineType.LineStick,
+  CROSSDOT: LineType.CrossDot,
+  CIRCLEDOT: LineType.CircleDot,
+  POINTDOT: LineType.PointDot,
+};
+
+const VISIBILITIES: Record<string, Visibility> = {
+  NODRAW: Visibility.NoDraw,
+  NOTEXT: Visibility.NoText,
+};
+
+// 通达信预定义颜色
+const NAMED_COLORS: Record<string, RgbColor> = {
+  COLORBLACK: { r: 0, g: 0, b: 0 },
+  COLORWHITE: { r: 255, g: 255, b: 255 },
+  COLORRED: { r: 255, g: 0, b: 0 },
+  COLORGREEN: { r: 0, g: 255, b: 0 },
+  COLORBLUE: { r: 0, g: 0, b: 255 },
+  COLORYELLOW: { r: 255, g: 255, b: 0 },
+  COLORCYAN: { r: 0, g: 255, b: 255 },
+  COLORMAGENTA: { r: 255, g: 0, b: 255 },
+  COLORBROWN: { r: 128, g: 128, b: 0 },
+  COLORGRAY: { r: 128, g: 128, b: 128 },
+  COLORLIGRAY: { r: 192, g: 192, b: 192 },
+  COLORLIRED: { r: 255, g: 128, b: 128 },
+  COLORLIGREEN: { r: 128, g: 255, b: 128 },
+  COLORLIBLUE: { r: 128, g: 128, b: 255 },
+  COLORLICYAN: { r: 128, g: 255, b: 255 },
+  COLORLIMAGENTA: { r: 255, g: 128, b: 255 },
+};
+
+// 自定义颜色 COLOR+6位十六进制，通达信的顺序为BBGGRR（如COLOR0000FF为红色）
+const HEX_COLOR_PATTERN = /^COLOR([0-9A-F]{2})([0-9A-F]{2})([0-9A-F]{2})$/;
+
+// 线宽 LINETHICK1 到 LINETHICK9
+const THICKNESS_PATTERN = /^LINETHICK([1-9])$/;
+
+// 通达信支持但未建模的样式：图层、精度、对齐等
+const OTHER_STYLE_PATTERN = /^(DRAWABOVE|NOTMIXTEXT|NOFRAME|(LAYER|PRECIS|ALIGN|VALIGN)[0-9])$/;
+
+// 解析单个样式关键字（不区分大小写），无法识别时返回null
+export function parsePlotStyle(text: string): PlotStyle | null {
+  const name = text.toUpperCase();
+  if (name in LINE_TYPES) {
+    return { type: 'LineType', name, lineType: LINE_TYPES[name] };
+  }
+  if (name in VISIBILITIES) {
+    return { type: 'Visibility', name, visibility: VISIBILITIES[name] };
+  }
+  if (name in NAMED_COLORS) {
+    return { type: 'Color', name, color: { ...NAMED_COLORS[name] } };
+  }
+  const hex = HEX_COLOR_PATTERN.exec(name);
+  if (hex) {
+    const [b, g, r] = hex.slice(1).map((digits) => parseInt(digits, 16));
+    return { type: 'Color', name, color: { r, g, b } };
+  }
+  const thickness = THICKNESS_PATTERN.exec(name);
+  if (thickness) {
+    return { type: 'Thickness', name, thickness: Number(thickness[1]) };
+  }
+  if (OTHER_STYLE_PATTERN.test(name)) {
+    return { type: 'Other', name };
+  }
+  return null;
+}
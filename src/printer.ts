@@ -0,0 +1,198 @@
+// 公式格式化输出，将AST转换回规范的通达信公式文本
+import {
+  Expr,
+  Statement,
+  Formula,
+  FormulaParam,
+  Comment,
+  UnaryOperator,
+  BinaryOperator,
+} from './ast';
+
+export interface PrintOptions {
+  semicolons?: boolean;   // 语句末尾是否添加分号，默认true
+  compact?: boolean;      // 紧凑模式（运算符和逗号两侧不加空格），默认false
+  comments?: boolean;     // 是否保留注释，默认true
+  newline?: string;       // 换行符，默认\n
+}
+
+const DEFAULT_PRINT_OPTIONS: Required<PrintOptions> = {
+  semicolons: true,
+  compact: false,
+  comments: true,
+  newline: '\n',
+};
+
+// 二元运算符的文本和优先级（与Parser中的绑定强度保持一致）
+const BINARY_OPERATORS: Record<BinaryOperator, { text: string; precedence: number }> = {
+  [BinaryOperator.Or]: { text: 'OR', precedence: 1 },
+  [BinaryOperator.And]: { text: 'AND', precedence: 2 },
+  [BinaryOperator.Gt]: { text: '>', precedence: 3 },
+  [BinaryOperator.Lt]: { text: '<', precedence: 3 },
+  [BinaryOperator.GtEq]: { text: '>=', precedence: 3 },
+  [BinaryOperator.LtEq]: { text: '<=', precedence: 3 },
+  [BinaryOperator.EqEq]: { text: '=', precedence: 3 }, // 通达信的等于写作=，==同样可以解析
+  [BinaryOperator.NotEq]: { text: '<>', precedence: 3 },
+  [BinaryOperator.Add]: { text: '+', precedence: 4 },
+  [BinaryOperator.Sub]: { text: '-', precedence: 4 },
+  [BinaryOperator.Mul]: { text: '*', precedence: 5 },
+  [BinaryOperator.Div]: { text: '/', precedence: 5 },
+};
+
+// 一元运算符优先级高于所有二元运算符
+const UNARY_PRECEDENCE = 6;
+// 原子表达式（字面量、变量、函数调用、括号）
+const ATOM_PRECEDENCE = 7;
+
+// 将整个公式格式化为文本
+export function printFormula(formula: Formula, options: PrintOptions = {}): string {
+  const opts = { ...DEFAULT_PRINT_OPTIONS, ...options };
+  const pendingComments = opts.comments ? [...(formula.comments ?? [])] : [];
+  // 参数声明统一放在公式开头
+  const lines: string[] = (formula.params ?? []).map((param) => printParam(param, opts));
+
+  for (const statement of formula.statements) {
+    // 语句之前（以及语句内部）的注释作为前置注释单独成行
+    if (statement.span) {
+      const end = statement.span.end.offset;
+      while (pendingComments.length > 0 && pendingComments[0].span.start.offset < end) {
+        lines.push(printComment(pendingComments.shift()!));
+      }
+    }
+
+    let line = printStatement(statement, opts);
+
+    // 与语句结束位置同一行的注释作为行尾注释
+    if (statement.span) {
+      const endLine = statement.span.end.line;
+      while (pendingComments.length > 0 && pendingComments[0].span.start.line === endLine) {
+        line += ' ' + printComment(pendingComments.shift()!);
+      }
+    }
+
+    lines.push(line);
+  }
+
+  // 剩余注释放在最后
+  for (const comment of pendingComments) {
+    lines.push(printComment(comment));
+  }
+
+  return lines.length > 0 ? lines.join(opts.newline) + opts.newline : '';
+}
+
+// 格式化单个语句（不含换行）
+export function printStatement(statement: Statement, options: PrintOptions = {}): string {
+  const opts = { ...DEFAULT_PRINT_OPTIONS, ...options };
+  const terminator = opts.semicolons ? ';' : '';
+
+  switch (statement.type) {
+    case 'Assignment': {
+      const assign = opts.compact ? ':=' : ' := ';
+      return `${statement.variable}${assign}${printExpr(statement.expr, opts)}${terminator}`;
+    }
+    case 'Output': {
+      const colon = opts.compact ? ':' : ': ';
+      const comma = opts.compact ? ',' : ', ';
+      const name = statement.name !== null ? `${statement.name}${colon}` : '';
+      const styles = statement.styles.map((style) => `${comma}${style.name}`).join('');
+      return `${name}${printExpr(statement.expr, opts)}${styles}${terminator}`;
+    }
+    default:
+      throw new Error(`Unknown statement type: ${(statement as any).type}`);
+  }
+}
+
+// 格式化参数声明，如：PARAM N(5, 1, 100, 1);
+export function printParam(param: FormulaParam, options: PrintOptions = {}): string {
+  const opts = { ...DEFAULT_PRINT_OPTIONS, ...options };
+  const comma = opts.compact ? ',' : ', ';
+  // 按位置输出，遇到第一个未声明的值即停止
+  const values = [param.defaultValue, param.min, param.max, param.step];
+  const declared = values.indexOf(undefined);
+  const text = values.slice(0, declared === -1 ? values.length : declared).join(comma);
+  return `PARAM ${param.name}(${text})${opts.semicolons ? ';' : ''}`;
+}
+
+// 格式化表达式，必要时自动补充括号以保证重新解析后结构不变
+export function printExpr(expr: Expr, options: PrintOptions = {}): string {
+  const opts = { ...DEFAULT_PRINT_OPTIONS, ...options };
+
+  switch (expr.type) {
+    case 'Literal':
+      return formatNumber(expr.numericValue);
+    case 'Variable':
+      return expr.name;
+    case 'UnaryOp': {
+      const operand = printOperand(expr.operand, UNARY_PRECEDENCE, opts);
+      if (expr.operator === UnaryOperator.Not) {
+        return `NOT ${operand}`;
+      }
+      // 对负数字面量取负时加括号，避免输出--1
+      return operand.startsWith('-') ? `-(${operand})` : `-${operand}`;
+    }
+    case 'BinaryOp': {
+      const { text, precedence } = BINARY_OPERATORS[expr.operator];
+      // 二元运算符均为左结合：右操作数优先级相同时也需要括号
+      const left = printOperand(expr.left, precedence, opts);
+      const right = printOperand(expr.right, precedence + 1, opts);
+      const isWord = text === 'AND' || text === 'OR';
+      const separator = opts.compact && !isWord ? '' : ' ';
+      return `${left}${separator}${text}${separator}${right}`;
+    }
+    case 'FunctionCall': {
+      const comma = opts.compact ? ',' : ', ';
+      const args = expr.args.map((arg) => printExpr(arg, opts)).join(comma);
+      const component = expr.component ? `.${expr.component.toUpperCase()}` : '';
+      return `${expr.name.toUpperCase()}${component}(${args})`;
+    }
+    case 'Grouped':
+      return `(${printExpr(expr.expr, opts)})`;
+    default:
+      throw new Error(`Unknown expression type: ${(expr as any).type}`);
+  }
+}
+
+// 按普通小数格式输出数字，词法分析器不支持科学计数法（如1e-7、1e+21）
+function formatNumber(value: number): string {
+  const text = String(value);
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (!match) {
+    return text;
+  }
+  const [, sign, integer, fraction = '', exponent] = match;
+  const digits = integer + fraction;
+  // 小数点在digits中的位置
+  const point = integer.length + Number(exponent);
+  if (point <= 0) {
+    return `${sign}0.${'0'.repeat(-point)}${digits}`;
+  }
+  if (point >= digits.length) {
+    return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+  }
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+}
+
+// 格式化操作数，优先级低于要求时加括号
+function printOperand(expr: Expr, minPrecedence: number, opts: Required<PrintOptions>): string {
+  const text = printExpr(expr, opts);
+  return getPrecedence(expr) < minPrecedence ? `(${text})` : text;
+}
+
+function getPrecedence(expr: Expr): number {
+  switch (expr.type) {
+    case 'BinaryOp':
+      return BINARY_OPERATORS[expr.operator].precedence;
+    case 'UnaryOp':
+      return UNARY_PRECEDENCE;
+    case 'Literal':
+      // 负数字面量重新解析后是一元取负
+      return expr.numericValue < 0 ? UNARY_PRECEDENCE : ATOM_PRECEDENCE;
+    default:
+      return ATOM_PRECEDENCE;
+  }
+}
+
+function printComment(comment: Comment): string {
+  return `{${comment.text}}`;
+}
@@ -3,24 +3,28 @@ import { createParser } from './parser';
 import { InputData, InputDataBuilder } from './data';
 import { createEvaluator } from './evaluator';
 import { CustomStockData } from './custom-data-interface';
-import { fetchStockData, fetchMultipleStockData, TimeFrame } from './eastmoney-adapter';
+import { fetchStockData, fetchMultipleStockData } from './eastmoney-adapter';
+import { TimeFrame } from './timeframe';
 import * as workerpool from 'workerpool';
 import path from 'path';
 import os from 'os';
 import { cwd } from 'process';
 import { DefaultFunctionRegistry, FunctionRegistry } from './function-registry';
 import { integrateIndicatorsPackage } from './indicators-integration';
+import { integrateCandlestickPatterns } from './candlestick-patterns';
 
 // 简化的输入数据接口
 export interface SimpleStockData {
   symbol: string;
   name?: string;
-  date: string[];
+  timeframe?: TimeFrame; // 时间周期（PERIOD变量使用）
+  date: string[]; // K线日期，如 2024-01-02 或分钟线的 2024-01-02 10:30
   opens: number[];
   highs: number[];
   lows: number[];
   closes: number[];
   volumes: number[];
+  amounts?: number[]; // 成交额（可选）
   // 自定义指标数据（避免与已知字段冲突）
   customIndicators?: {
     [key: string]: number[];
@@ -59,6 +63,11 @@ export interface RunnerOptions {
   enableProgress?: boolean; // 是否启用进度报告
 }
 
+// 单次执行的选项
+export interface RunOptions {
+  params?: Record<string, number>; // 覆盖公式中PARAM声明的参数默认值，如 { N: 10 }
+}
+
 // 主Runner类
 export class FormulaRunner {
   private options: Required<RunnerOptions>;
@@ -96,14 +105,18 @@ export class FormulaRunner {
   }
 
   // 简化的执行接口 - 单股票数据
-  async runFormula(formulaText: string, data: SimpleStockData): Promise<RunResult> {
+  async runFormula(
+    formulaText: string,
+    data: SimpleStockData,
+    runOptions: RunOptions = {}
+  ): Promise<RunResult> {
     const startTime = Date.now();
 
     try {
       if (this.options.useWorker && this.shouldUseWorker(data)) {
-        return await this.runInWorker(formulaText, data, startTime);
+        return await this.runInWorker(formulaText, data, startTime, runOptions);
       } else {
-        return await this.runInMainThread(formulaText, data, startTime);
+        return await this.runInMainThread(formulaText, data, startTime, runOptions);
       }
     } catch (error) {
       const executionTime = Date.now() - startTime;
@@ -117,14 +130,18 @@ export class FormulaRunner {
   }
 
   // 批量股票数据执行
-  async runBatchFormula(formulaText: string, dataList: SimpleStockData[]): Promise<BatchRunResult> {
+  async runBatchFormula(
+    formulaText: string,
+    dataList: SimpleStockData[],
+    runOptions: RunOptions = {}
+  ): Promise<BatchRunResult> {
     const startTime = Date.now();
 
     try {
       if (this.options.useWorker && dataList.length > 1) {
-        return await this.runBatchInWorkers(formulaText, dataList, startTime);
+        return await this.runBatchInWorkers(formulaText, dataList, startTime, runOptions);
       } else {
-        return await this.runBatchInMainThread(formulaText, dataList, startTime);
+        return await this.runBatchInMainThread(formulaText, dataList, startTime, runOptions);
       }
     } catch (error) {
       const executionTime = Date.now() - startTime;
@@ -189,6 +206,7 @@ export class FormulaRunner {
     formulaText: string,
     data: SimpleStockData,
     startTime: number,
+    runOptions: RunOptions = {},
     functionRegistry?: FunctionRegistry
   ): Promise<RunResult> {
     const inputData = this.createInputData(data);
@@ -196,12 +214,17 @@ export class FormulaRunner {
     if (!functionRegistry) {
       functionRegistry = new DefaultFunctionRegistry();
       integrateIndicatorsPackage(functionRegistry);
+      integrateCandlestickPatterns(functionRegistry);
     }
-    const evaluator = createEvaluator(inputData, functionRegistry);
+    const evaluator = createEvaluator(inputData, functionRegistry, data.customIndicators, {
+      symbol: data.symbol,
+      timeframe: data.timeframe,
+      dates: data.date
+    });
 
     const parser = createParser(formulaText);
     const formula = parser.parseFormula();
-    const result = evaluator.evaluateFormula(formula);
+    const result = evaluator.evaluateFormula(formula, runOptions.params);
 
     const executionTime = Date.now() - startTime;
 
@@ -220,14 +243,15 @@ export class FormulaRunner {
   private async runInWorker(
     formulaText: string,
     data: SimpleStockData,
-    startTime: number
+    startTime: number,
+    runOptions: RunOptions
   ): Promise<RunResult> {
     if (!this.pool) {
       throw new Error('Worker pool not initialized');
     }
 
     try {
-      const result = await this.pool.exec('processFormula', [formulaText, data, this.options]);
+      const result = await this.pool.exec('processFormula', [formulaText, data, this.options, runOptions]);
       return {
         ...result,
         executionTime: Date.now() - startTime,
@@ -244,7 +268,8 @@ export class FormulaRunner {
   private async runBatchInMainThread(
     formulaText: string,
     dataList: SimpleStockData[],
-    startTime: number
+    startTime: number,
+    runOptions: RunOptions
   ): Promise<BatchRunResult> {
     const results: Array<{
       symbol: string;
@@ -257,7 +282,7 @@ export class FormulaRunner {
 
       // 进度回调暂时移除，避免Worker序列化问题
 
-      const result = await this.runInMainThread(formulaText, data, Date.now());
+      const result = await this.runInMainThread(formulaText, data, Date.now(), runOptions);
       if (result.success && result.data) {
         result.data.forEach((output) => {
           results.push({
@@ -283,7 +308,8 @@ export class FormulaRunner {
   private async runBatchInWorkers(
     formulaText: string,
     dataList: SimpleStockData[],
-    startTime: number
+    startTime: number,
+    runOptions: RunOptions
   ): Promise<BatchRunResult> {
     if (!this.pool) {
       throw new Error('Worker pool not initialized');
@@ -292,7 +318,7 @@ export class FormulaRunner {
     try {
       // 并行处理每个数据项
       const promises = dataList.map((data, index) =>
-        this.pool!.exec('processFormula', [formulaText, data, this.options])
+        this.pool!.exec('processFormula', [formulaText, data, this.options, runOptions])
           .then((result: any) => ({
             success: true,
             data: result.data,
@@ -352,7 +378,14 @@ export class FormulaRunner {
     const builder = new InputDataBuilder();
 
     for (let i = 0; i < data.date.length; i++) {
-      builder.addBar(data.opens[i], data.highs[i], data.lows[i], data.closes[i], data.volumes[i]);
+      builder.addBar(
+        data.opens[i],
+        data.highs[i],
+        data.lows[i],
+        data.closes[i],
+        data.volumes[i],
+        data.amounts?.[i]
+      );
     }
 
     return builder.build();
@@ -366,6 +399,7 @@ export class FormulaRunner {
     const simpleData: SimpleStockData = {
       symbol: stockData.symbol,
       name: stockData.name,
+      timeframe: stockData.timeframe,
       date: data.date,
       opens: data.opens,
       highs: data.highs,
@@ -374,11 +408,19 @@ export class FormulaRunner {
       volumes: data.volumes
     };
 
-    // 提取自定义指标字段
+    if (data.amounts) {
+      simpleData.amounts = data.amounts;
+    }
+
+    // 提取自定义指标字段，与K线数量不一致的字段跳过
     const customIndicators: { [key: string]: number[] } = {};
     Object.entries(data).forEach(([key, value]) => {
-      if (!['date', 'opens', 'highs', 'lows', 'closes', 'volumes'].includes(key)) {
-        if (Array.isArray(value) && value.every((item) => typeof item === 'number')) {
+      if (!['date', 'opens', 'highs', 'lows', 'closes', 'volumes', 'amounts'].includes(key)) {
+        if (
+          Array.isArray(value) &&
+          value.length === data.date.length &&
+          value.every((item) => typeof item === 'number')
+        ) {
           customIndicators[key] = value;
         }
       }
@@ -402,11 +444,11 @@ export function createRunner(options?: RunnerOptions): FormulaRunner {
 export async function runFormula(
   formulaText: string,
   data: SimpleStockData,
-  options?: RunnerOptions
+  options?: RunnerOptions & RunOptions
 ): Promise<RunResult> {
   const runner = createRunner(options);
   try {
-    return await runner.runFormula(formulaText, data);
+    return await runner.runFormula(formulaText, data, { params: options?.params });
   } finally {
     await runner.close();
   }
@@ -415,11 +457,11 @@ export async function runFormula(
 export async function runBatchFormula(
   formulaText: string,
   dataList: SimpleStockData[],
-  options?: RunnerOptions
+  options?: RunnerOptions & RunOptions
 ): Promise<BatchRunResult> {
   const runner = createRunner(options);
   try {
-    return await runner.runBatchFormula(formulaText, dataList);
+    return await runner.runBatchFormula(formulaText, dataList, { params: options?.params });
   } finally {
     await runner.close();
   }
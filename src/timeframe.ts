@@ -0,0 +1,11 @@
+// 时间周期枚举，取值与东方财富K线接口的klt参数一致
+export enum TimeFrame {
+  MIN_1 = '1',      // 1分钟
+  MIN_5 = '5',      // 5分钟
+  MIN_15 = '15',    // 15分钟
+  MIN_30 = '30',    // 30分钟
+  MIN_60 = '60',    // 60分钟
+  DAILY = '101',     // 日线
+  WEEKLY = '102',    // 周线
+  MONTHLY = '103'     // 月线
+}
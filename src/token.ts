@@ -13,6 +13,7 @@ export enum TokenType {
   Colon = 'Colon',         // :
   Gt = 'Gt',               // >
   Lt = 'Lt',               // <
+  Dot = 'Dot',             // .（选择多输出函数的某条输出，如 MACD.DEA(C)）
   
   // 多字符Token
   ColonAssign = 'ColonAssign', // :=
@@ -45,6 +46,15 @@ export interface Token {
   lexeme: string;
   line: number;
   column: number;
+  offset: number;   // 在源码中的起始偏移量（从0开始）
+  length: number;   // 在源码中占用的字符数（字符串包含两侧引号）
+}
+
+// 源码位置（偏移量从0开始，行列号从1开始）
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
 }
 
 // Token构造函数
@@ -52,13 +62,31 @@ export function createToken(
   tokenType: TokenType,
   lexeme: string,
   line: number,
-  column: number
+  column: number,
+  offset: number = 0,
+  length: number = lexeme.length
 ): Token {
   return {
     tokenType,
     lexeme,
     line,
     column,
+    offset,
+    length,
+  };
+}
+
+// Token起始位置
+export function getTokenStart(token: Token): SourcePosition {
+  return { offset: token.offset, line: token.line, column: token.column };
+}
+
+// Token结束位置（不含）
+export function getTokenEnd(token: Token): SourcePosition {
+  return {
+    offset: token.offset + token.length,
+    line: token.line,
+    column: token.column + token.length,
   };
 }
 
@@ -91,6 +119,7 @@ export function getTokenTypeDescription(tokenType: TokenType): string {
     [TokenType.Colon]: '冒号',
     [TokenType.Gt]: '大于号',
     [TokenType.Lt]: '小于号',
+    [TokenType.Dot]: '点号',
     [TokenType.ColonAssign]: '赋值符号',
     [TokenType.GtEq]: '大于等于',
     [TokenType.LtEq]: '小于等于',
@@ -0,0 +1,196 @@
+// AST遍历与变换工具，供求值器、检查器、重命名等工具共用
+import { Expr, Statement, Formula } from './ast';
+
+export type AstNode = Expr | Statement;
+export type ExprType = Expr['type'];
+export type StatementType = Statement['type'];
+export type AstNodeType = AstNode['type'];
+
+// 按类型取出具体节点，如 ExprOf<'FunctionCall'>
+export type ExprOf<T extends ExprType> = Extract<Expr, { type: T }>;
+export type StatementOf<T extends StatementType> = Extract<Statement, { type: T }>;
+export type NodeOf<T extends AstNodeType> = Extract<AstNode, { type: T }>;
+
+// 节点路径：记录节点在父节点中的位置，可沿parent一直追溯到语句
+export interface NodePath {
+  node: AstNode;
+  parent: NodePath | null;
+  key: string | null;     // 在父节点中的字段名，如 'left'、'args'
+  index: number | null;   // 在父节点数组字段中的下标（如函数参数、语句序号）
+}
+
+// 遍历器：enter返回false时跳过子节点；按类型的回调在enter之后调用
+export type Visitor = {
+  enter?: (node: AstNode, path: NodePath) => void | false;
+  leave?: (node: AstNode, path: NodePath) => void;
+} & { [T in AstNodeType]?: (node: NodeOf<T>, path: NodePath) => void };
+
+// 变换器：所有回调都在子节点变换完成之后调用（自底向上），
+// 返回新节点即替换原节点，不返回则保留；语句回调返回null表示删除该语句
+export type Transformer = {
+  leave?: (node: AstNode, path: NodePath) => AstNode | null | void;
+} & { [T in ExprType]?: (node: ExprOf<T>, path: NodePath) => Expr | void } & {
+  [T in StatementType]?: (node: StatementOf<T>, path: NodePath) => Statement | null | void;
+};
+
+// 按表达式类型分派，要求覆盖所有类型
+export type ExprHandlers<R> = { [T in ExprType]: (node: ExprOf<T>) => R };
+
+export function matchExpr<R>(expr: Expr, handlers: ExprHandlers<R>): R {
+  const handler = handlers[expr.type] as ((node: Expr) => R) | undefined;
+  if (!handler) {
+    throw new Error(`Unknown expression type: ${(expr as any).type}`);
+  }
+  return handler(expr);
+}
+
+export function isStatement(node: AstNode): node is Statement {
+  return node.type === 'Assignment' || node.type === 'Output';
+}
+
+export function isExpr(node: AstNode): node is Expr {
+  return !isStatement(node);
+}
+
+// 获取节点的直接子节点
+export function getChildren(node: AstNode): Array<{ node: Expr; key: string; index: number | null }> {
+  switch (node.type) {
+    case 'Literal':
+    case 'Variable':
+      return [];
+    case 'UnaryOp':
+      return [{ node: node.operand, key: 'operand', index: null }];
+    case 'BinaryOp':
+      return [
+        { node: node.left, key: 'left', index: null },
+        { node: node.right, key: 'right', index: null },
+      ];
+    case 'FunctionCall':
+      return node.args.map((arg, index) => ({ node: arg, key: 'args', index }));
+    case 'Grouped':
+    case 'Assignment':
+    case 'Output':
+      return [{ node: node.expr, key: 'expr', index: null }];
+    default:
+      throw new Error(`Unknown node type: ${(node as any).type}`);
+  }
+}
+
+// 深度优先遍历整个公式
+export function walkFormula(formula: Formula, visitor: Visitor): void {
+  formula.statements.forEach((statement, index) => {
+    walkNode(statement, visitor, { node: statement, parent: null, key: 'statements', index });
+  });
+}
+
+// 深度优先遍历单个节点（表达式或语句）
+export function walk(node: AstNode, visitor: Visitor, parent: NodePath | null = null): void {
+  walkNode(node, visitor, { node, parent, key: null, index: null });
+}
+
+function walkNode(node: AstNode, visitor: Visitor, path: NodePath): void {
+  if (visitor.enter?.(node, path) === false) {
+    return;
+  }
+
+  const typed = visitor[node.type] as ((node: AstNode, path: NodePath) => void) | undefined;
+  typed?.(node, path);
+
+  for (const child of getChildren(node)) {
+    walkNode(child.node, visitor, { node: child.node, parent: path, key: child.key, index: child.index });
+  }
+
+  visitor.leave?.(node, path);
+}
+
+// 变换整个公式，返回新公式（未变化的子树会被复用，原公式不会被修改）
+export function transformFormula(formula: Formula, transformer: Transformer): Formula {
+  const statements: Statement[] = [];
+  let changed = false;
+
+  formula.statements.forEach((statement, index) => {
+    const path: NodePath = { node: statement, parent: null, key: 'statements', index };
+    const result = transformNode(statement, transformer, path);
+    if (result !== statement) {
+      changed = true;
+    }
+    if (result === null) {
+      return;
+    }
+    if (!isStatement(result)) {
+      throw new Error(`Transformer must return a statement for ${statement.type}`);
+    }
+    statements.push(result);
+  });
+
+  return changed ? { ...formula, statements } : formula;
+}
+
+// 变换单个表达式
+export function transformExpr(expr: Expr, transformer: Transformer, parent: NodePath | null = null): Expr {
+  const result = transformNode(expr, transformer, { node: expr, parent, key: null, index: null });
+  if (result === null || !isExpr(result)) {
+    throw new Error(`Transformer must return an expression for ${expr.type}`);
+  }
+  return result;
+}
+
+function transformNode(node: AstNode, transformer: Transformer, path: NodePath): AstNode | null {
+  let current = rebuildWithChildren(node, transformer, path);
+
+  const typed = transformer[current.type] as
+    | ((node: AstNode, path: NodePath) => AstNode | null | void)
+    | undefined;
+  const typedResult = typed?.(current, path);
+  if (typedResult === null) {
+    return null;
+  }
+  if (typedResult) {
+    current = typedResult;
+  }
+
+  const leaveResult = transformer.leave?.(current, path);
+  if (leaveResult === null) {
+    return null;
+  }
+  return leaveResult ?? current;
+}
+
+// 先变换子节点，子节点全部未变化时返回原节点
+function rebuildWithChildren(node: AstNode, transformer: Transformer, path: NodePath): AstNode {
+  const child = (expr: Expr, key: string, index: number | null = null): Expr => {
+    const childPath: NodePath = { node: expr, parent: path, key, index };
+    const result = transformNode(expr, transformer, childPath);
+    if (result === null || !isExpr(result)) {
+      throw new Error(`Transformer must return an expression for ${expr.type}`);
+    }
+    return result;
+  };
+
+  switch (node.type) {
+    case 'Literal':
+    case 'Variable':
+      return node;
+    case 'UnaryOp': {
+      const operand = child(node.operand, 'operand');
+      return operand === node.operand ? node : { ...node, operand };
+    }
+    case 'BinaryOp': {
+      const left = child(node.left, 'left');
+      const right = child(node.right, 'right');
+      return left === node.left && right === node.right ? node : { ...node, left, right };
+    }
+    case 'FunctionCall': {
+      const args = node.args.map((arg, index) => child(arg, 'args', index));
+      return args.every((arg, index) => arg === node.args[index]) ? node : { ...node, args };
+    }
+    case 'Grouped':
+    case 'Assignment':
+    case 'Output': {
+      const expr = child(node.expr, 'expr');
+      return expr === node.expr ? node : { ...node, expr };
+    }
+    default:
+      throw new Error(`Unknown node type: ${(node as any).type}`);
+  }
+}